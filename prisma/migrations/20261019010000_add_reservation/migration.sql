@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `reservation` (
+    `id` VARCHAR(36) NOT NULL,
+    `book_isbn` BIGINT UNSIGNED NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `status` ENUM('waiting', 'ready', 'fulfilled', 'cancelled', 'expired') NOT NULL DEFAULT 'waiting',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `ready_at` DATETIME(0) NULL,
+    `expires_at` DATETIME(0) NULL,
+
+    INDEX `reservation_book_isbn_status_idx`(`book_isbn`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `rental_log` ADD COLUMN `renewal_count` TINYINT UNSIGNED NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `fine_ledger` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `rental_id` VARCHAR(36) NULL,
+    `type` ENUM('charge', 'payment', 'waiver') NOT NULL,
+    `amount` INTEGER UNSIGNED NOT NULL,
+    `days_late` INTEGER UNSIGNED NULL,
+    `note` VARCHAR(256) NULL,
+    `recorded_by` VARCHAR(36) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `fine_ledger_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE `book_copy` (
+    `id` VARCHAR(36) NOT NULL,
+    `barcode` VARCHAR(64) NOT NULL,
+    `book_isbn` BIGINT UNSIGNED NOT NULL,
+    `isRetired` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `book_copy_barcode_key`(`barcode`),
+    INDEX `book_copy_book_isbn_idx`(`book_isbn`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- 既存の書籍 (および貸出記録にだけ残っているISBN) ごとに1冊目の所蔵を作成
+INSERT INTO `book_copy` (`id`, `barcode`, `book_isbn`)
+SELECT UUID(), CONCAT(`isbn`, '-1'), `isbn`
+FROM (
+    SELECT `isbn` FROM `book`
+    UNION
+    SELECT `book_isbn` FROM `rental_log`
+) AS `isbns`;
+
+-- AlterTable
+ALTER TABLE `rental_log` ADD COLUMN `copy_id` VARCHAR(36) NULL;
+
+-- 既存の貸出記録を1冊目の所蔵に紐付ける
+UPDATE `rental_log` r
+JOIN `book_copy` c ON c.`book_isbn` = r.`book_isbn`
+SET r.`copy_id` = c.`id`;
+
+-- AlterTable
+ALTER TABLE `rental_log` MODIFY `copy_id` VARCHAR(36) NOT NULL;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `loan_policy_id` VARCHAR(36) NULL;
+
+-- CreateTable
+CREATE TABLE `loan_policy` (
+    `id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(64) NOT NULL,
+    `max_loans` TINYINT UNSIGNED NOT NULL,
+    `loan_days` SMALLINT UNSIGNED NOT NULL,
+    `max_renewals` TINYINT UNSIGNED NOT NULL,
+    `isDefault` BOOLEAN NOT NULL DEFAULT false,
+
+    UNIQUE INDEX `loan_policy_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- 既定のポリシー (これまでの 7日貸出・延長2回 に合わせる)
+INSERT INTO `loan_policy` (`id`, `name`, `max_loans`, `loan_days`, `max_renewals`, `isDefault`)
+VALUES (UUID(), '標準', 5, 7, 2, true);
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE `user_role` (
+    `user_id` VARCHAR(36) NOT NULL,
+    `role` ENUM('librarian', 'cataloguer') NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`user_id`, `role`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `rental_log` ADD COLUMN `checkout_staff_id` VARCHAR(36) NULL,
+    ADD COLUMN `return_staff_id` VARCHAR(36) NULL,
+    ADD COLUMN `force_returned` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `audit_log` (
+    `id` VARCHAR(36) NOT NULL,
+    `actor_id` VARCHAR(36) NULL,
+    `action` VARCHAR(32) NOT NULL,
+    `entity` VARCHAR(32) NOT NULL,
+    `entity_id` VARCHAR(64) NOT NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audit_log_entity_entity_id_idx`(`entity`, `entity_id`),
+    INDEX `audit_log_actor_id_idx`(`actor_id`),
+    INDEX `audit_log_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
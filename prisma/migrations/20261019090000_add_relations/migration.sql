@@ -0,0 +1,212 @@
+-- CreateTable
+CREATE TABLE `orphan_report` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `table_name` VARCHAR(64) NOT NULL,
+    `column_name` VARCHAR(64) NOT NULL,
+    `row_id` VARCHAR(64) NOT NULL,
+    `missing_value` VARCHAR(64) NOT NULL,
+    `resolution` VARCHAR(32) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ------------------------------------------------------------
+-- 参照切れの記録
+-- 外部キーを張る前に、参照先が存在しない行を orphan_report に残す
+-- resolution: placeholder = 削除済みの仮データを作成, set_null = NULL に変更
+-- ------------------------------------------------------------
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'book', 'author_id', b.`isbn`, b.`author_id`, 'placeholder'
+FROM `book` b LEFT JOIN `author` a ON a.`id` = b.`author_id`
+WHERE a.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'book', 'publisher_id', b.`isbn`, b.`publisher_id`, 'placeholder'
+FROM `book` b LEFT JOIN `publisher` p ON p.`id` = b.`publisher_id`
+WHERE p.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'book_copy', 'book_isbn', c.`id`, c.`book_isbn`, 'placeholder'
+FROM `book_copy` c LEFT JOIN `book` b ON b.`isbn` = c.`book_isbn`
+WHERE b.`isbn` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'rental_log', 'book_isbn', r.`id`, r.`book_isbn`, 'placeholder'
+FROM `rental_log` r LEFT JOIN `book` b ON b.`isbn` = r.`book_isbn`
+WHERE b.`isbn` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'rental_log', 'copy_id', r.`id`, r.`copy_id`, 'placeholder'
+FROM `rental_log` r LEFT JOIN `book_copy` c ON c.`id` = r.`copy_id`
+WHERE c.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'rental_log', 'user_id', r.`id`, r.`user_id`, 'placeholder'
+FROM `rental_log` r LEFT JOIN `user` u ON u.`id` = r.`user_id`
+WHERE u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'rental_log', 'checkout_staff_id', r.`id`, r.`checkout_staff_id`, 'set_null'
+FROM `rental_log` r LEFT JOIN `user` u ON u.`id` = r.`checkout_staff_id`
+WHERE r.`checkout_staff_id` IS NOT NULL AND u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'rental_log', 'return_staff_id', r.`id`, r.`return_staff_id`, 'set_null'
+FROM `rental_log` r LEFT JOIN `user` u ON u.`id` = r.`return_staff_id`
+WHERE r.`return_staff_id` IS NOT NULL AND u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'reservation', 'book_isbn', r.`id`, r.`book_isbn`, 'placeholder'
+FROM `reservation` r LEFT JOIN `book` b ON b.`isbn` = r.`book_isbn`
+WHERE b.`isbn` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'reservation', 'user_id', r.`id`, r.`user_id`, 'placeholder'
+FROM `reservation` r LEFT JOIN `user` u ON u.`id` = r.`user_id`
+WHERE u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'fine_ledger', 'user_id', f.`id`, f.`user_id`, 'placeholder'
+FROM `fine_ledger` f LEFT JOIN `user` u ON u.`id` = f.`user_id`
+WHERE u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'fine_ledger', 'rental_id', f.`id`, f.`rental_id`, 'set_null'
+FROM `fine_ledger` f LEFT JOIN `rental_log` r ON r.`id` = f.`rental_id`
+WHERE f.`rental_id` IS NOT NULL AND r.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'fine_ledger', 'recorded_by', f.`id`, f.`recorded_by`, 'set_null'
+FROM `fine_ledger` f LEFT JOIN `user` u ON u.`id` = f.`recorded_by`
+WHERE f.`recorded_by` IS NOT NULL AND u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'user_role', 'user_id', CONCAT(r.`user_id`, ':', r.`role`), r.`user_id`, 'placeholder'
+FROM `user_role` r LEFT JOIN `user` u ON u.`id` = r.`user_id`
+WHERE u.`id` IS NULL;
+
+INSERT INTO `orphan_report` (`table_name`, `column_name`, `row_id`, `missing_value`, `resolution`)
+SELECT 'user', 'loan_policy_id', u.`id`, u.`loan_policy_id`, 'set_null'
+FROM `user` u LEFT JOIN `loan_policy` p ON p.`id` = u.`loan_policy_id`
+WHERE u.`loan_policy_id` IS NOT NULL AND p.`id` IS NULL;
+
+-- ------------------------------------------------------------
+-- 参照切れの解消
+-- ------------------------------------------------------------
+
+-- 任意項目は NULL にする
+UPDATE `rental_log` r LEFT JOIN `user` u ON u.`id` = r.`checkout_staff_id`
+SET r.`checkout_staff_id` = NULL
+WHERE r.`checkout_staff_id` IS NOT NULL AND u.`id` IS NULL;
+
+UPDATE `rental_log` r LEFT JOIN `user` u ON u.`id` = r.`return_staff_id`
+SET r.`return_staff_id` = NULL
+WHERE r.`return_staff_id` IS NOT NULL AND u.`id` IS NULL;
+
+UPDATE `fine_ledger` f LEFT JOIN `rental_log` r ON r.`id` = f.`rental_id`
+SET f.`rental_id` = NULL
+WHERE f.`rental_id` IS NOT NULL AND r.`id` IS NULL;
+
+UPDATE `fine_ledger` f LEFT JOIN `user` u ON u.`id` = f.`recorded_by`
+SET f.`recorded_by` = NULL
+WHERE f.`recorded_by` IS NOT NULL AND u.`id` IS NULL;
+
+UPDATE `user` u LEFT JOIN `loan_policy` p ON p.`id` = u.`loan_policy_id`
+SET u.`loan_policy_id` = NULL
+WHERE u.`loan_policy_id` IS NOT NULL AND p.`id` IS NULL;
+
+-- 必須項目は、元のIDのまま削除済みの仮データを作成する
+-- (記録そのものは残し、管理画面のゴミ箱から確認できるようにする)
+INSERT INTO `author` (`id`, `name`, `isDeleted`)
+SELECT DISTINCT b.`author_id`, '不明な著者', true
+FROM `book` b LEFT JOIN `author` a ON a.`id` = b.`author_id`
+WHERE a.`id` IS NULL;
+
+INSERT INTO `publisher` (`id`, `name`, `isDeleted`)
+SELECT DISTINCT b.`publisher_id`, '不明な出版社', true
+FROM `book` b LEFT JOIN `publisher` p ON p.`id` = b.`publisher_id`
+WHERE p.`id` IS NULL;
+
+-- 書籍の仮データが参照する著者・出版社 (必要な場合のみ)
+INSERT INTO `author` (`id`, `name`, `isDeleted`)
+SELECT '00000000-0000-0000-0000-000000000000', '不明な著者', true
+FROM DUAL
+WHERE EXISTS (SELECT 1 FROM `orphan_report` WHERE `column_name` = 'book_isbn')
+  AND NOT EXISTS (SELECT 1 FROM `author` WHERE `id` = '00000000-0000-0000-0000-000000000000');
+
+INSERT INTO `publisher` (`id`, `name`, `isDeleted`)
+SELECT '00000000-0000-0000-0000-000000000000', '不明な出版社', true
+FROM DUAL
+WHERE EXISTS (SELECT 1 FROM `orphan_report` WHERE `column_name` = 'book_isbn')
+  AND NOT EXISTS (SELECT 1 FROM `publisher` WHERE `id` = '00000000-0000-0000-0000-000000000000');
+
+INSERT INTO `book` (`isbn`, `title`, `author_id`, `publisher_id`, `publication_year`, `publication_month`, `isDeleted`)
+SELECT DISTINCT o.`missing_value`, '不明な書籍', '00000000-0000-0000-0000-000000000000', '00000000-0000-0000-0000-000000000000', 0, 0, true
+FROM `orphan_report` o
+LEFT JOIN `book` b ON b.`isbn` = o.`missing_value`
+WHERE o.`column_name` = 'book_isbn' AND b.`isbn` IS NULL;
+
+-- 所蔵の仮データ (除籍済み)
+INSERT INTO `book_copy` (`id`, `barcode`, `book_isbn`, `isRetired`)
+SELECT r.`copy_id`, CONCAT('orphan-', r.`copy_id`), MIN(r.`book_isbn`), true
+FROM `rental_log` r LEFT JOIN `book_copy` c ON c.`id` = r.`copy_id`
+WHERE c.`id` IS NULL
+GROUP BY r.`copy_id`;
+
+-- 利用者の仮データ (無効化済み・ログイン不可)
+INSERT INTO `user` (`id`, `email`, `name`, `password`, `updatedAt`, `isDeleted`)
+SELECT DISTINCT o.`missing_value`, CONCAT('orphan-', o.`missing_value`, '@invalid'), '不明なユーザー', '', CURRENT_TIMESTAMP(3), true
+FROM `orphan_report` o
+LEFT JOIN `user` u ON u.`id` = o.`missing_value`
+WHERE o.`column_name` = 'user_id' AND u.`id` IS NULL;
+
+-- ------------------------------------------------------------
+-- 外部キー
+-- ------------------------------------------------------------
+
+-- AddForeignKey
+ALTER TABLE `user` ADD CONSTRAINT `user_loan_policy_id_fkey` FOREIGN KEY (`loan_policy_id`) REFERENCES `loan_policy`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_role` ADD CONSTRAINT `user_role_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `book` ADD CONSTRAINT `book_author_id_fkey` FOREIGN KEY (`author_id`) REFERENCES `author`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `book` ADD CONSTRAINT `book_publisher_id_fkey` FOREIGN KEY (`publisher_id`) REFERENCES `publisher`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `book_copy` ADD CONSTRAINT `book_copy_book_isbn_fkey` FOREIGN KEY (`book_isbn`) REFERENCES `book`(`isbn`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `rental_log` ADD CONSTRAINT `rental_log_book_isbn_fkey` FOREIGN KEY (`book_isbn`) REFERENCES `book`(`isbn`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `rental_log` ADD CONSTRAINT `rental_log_copy_id_fkey` FOREIGN KEY (`copy_id`) REFERENCES `book_copy`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `rental_log` ADD CONSTRAINT `rental_log_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `rental_log` ADD CONSTRAINT `rental_log_checkout_staff_id_fkey` FOREIGN KEY (`checkout_staff_id`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `rental_log` ADD CONSTRAINT `rental_log_return_staff_id_fkey` FOREIGN KEY (`return_staff_id`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reservation` ADD CONSTRAINT `reservation_book_isbn_fkey` FOREIGN KEY (`book_isbn`) REFERENCES `book`(`isbn`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reservation` ADD CONSTRAINT `reservation_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `fine_ledger` ADD CONSTRAINT `fine_ledger_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `fine_ledger` ADD CONSTRAINT `fine_ledger_rental_id_fkey` FOREIGN KEY (`rental_id`) REFERENCES `rental_log`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `fine_ledger` ADD CONSTRAINT `fine_ledger_recorded_by_fkey` FOREIGN KEY (`recorded_by`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE `book_contributor` (
+    `book_isbn` BIGINT UNSIGNED NOT NULL,
+    `author_id` VARCHAR(36) NOT NULL,
+    `role` ENUM('author', 'translator', 'editor', 'illustrator') NOT NULL DEFAULT 'author',
+    `position` TINYINT UNSIGNED NOT NULL DEFAULT 0,
+
+    INDEX `book_contributor_author_id_idx`(`author_id`),
+    PRIMARY KEY (`book_isbn`, `author_id`, `role`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- 既存の著者を1人目の著者として移す
+INSERT INTO `book_contributor` (`book_isbn`, `author_id`, `role`, `position`)
+SELECT `isbn`, `author_id`, 'author', 0
+FROM `book`;
+
+-- AddForeignKey
+ALTER TABLE `book_contributor` ADD CONSTRAINT `book_contributor_book_isbn_fkey` FOREIGN KEY (`book_isbn`) REFERENCES `book`(`isbn`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `book_contributor` ADD CONSTRAINT `book_contributor_author_id_fkey` FOREIGN KEY (`author_id`) REFERENCES `author`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- DropForeignKey
+ALTER TABLE `book` DROP FOREIGN KEY `book_author_id_fkey`;
+
+-- AlterTable
+ALTER TABLE `book` DROP COLUMN `author_id`;
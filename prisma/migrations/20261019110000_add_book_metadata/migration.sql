@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE `book` ADD COLUMN `description` TEXT NULL,
+    ADD COLUMN `page_count` INTEGER UNSIGNED NULL,
+    ADD COLUMN `language` VARCHAR(16) NULL,
+    ADD COLUMN `cover_file` VARCHAR(128) NULL;
+
+-- CreateTable
+CREATE TABLE `tag` (
+    `id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(64) NOT NULL,
+
+    UNIQUE INDEX `tag_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `book_tag` (
+    `book_isbn` BIGINT UNSIGNED NOT NULL,
+    `tag_id` VARCHAR(36) NOT NULL,
+
+    INDEX `book_tag_tag_id_idx`(`tag_id`),
+    PRIMARY KEY (`book_isbn`, `tag_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `book_tag` ADD CONSTRAINT `book_tag_book_isbn_fkey` FOREIGN KEY (`book_isbn`) REFERENCES `book`(`isbn`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `book_tag` ADD CONSTRAINT `book_tag_tag_id_fkey` FOREIGN KEY (`tag_id`) REFERENCES `tag`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
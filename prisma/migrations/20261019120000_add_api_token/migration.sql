@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `api_token` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `name` VARCHAR(64) NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `prefix` VARCHAR(16) NOT NULL,
+    `scopes` VARCHAR(255) NOT NULL,
+    `lastUsedAt` DATETIME(3) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `api_token_token_hash_key`(`token_hash`),
+    INDEX `api_token_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `api_token` ADD CONSTRAINT `api_token_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `author` ADD COLUMN `search_key` VARCHAR(128) NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE `publisher` ADD COLUMN `search_key` VARCHAR(128) NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX `author_search_key_idx` ON `author`(`search_key`);
+
+-- CreateIndex
+CREATE INDEX `publisher_search_key_idx` ON `publisher`(`search_key`);
+
+-- 既存の行は適用後に npm run db:fill-search-keys で埋める (src/bin/fill-search-keys.ts)
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `rental_log` ADD COLUMN `open_copy_id` VARCHAR(36) NULL;
+
+-- 貸出中の記録に所蔵を入れる
+-- 同じ所蔵に貸出中の記録が複数ある場合は最初のものだけに入れる (残りは返却処理で閉じられる)
+UPDATE `rental_log` AS `r`
+JOIN (
+    SELECT MIN(`id`) AS `id`
+    FROM `rental_log`
+    WHERE `returned_date` IS NULL
+    GROUP BY `copy_id`
+) AS `first_open` ON `first_open`.`id` = `r`.`id`
+SET `r`.`open_copy_id` = `r`.`copy_id`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `rental_log_open_copy_id_key` ON `rental_log`(`open_copy_id`);
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `email_verified_at` DATETIME(3) NULL;
+
+-- 既存のユーザーは確認済みとして扱う
+UPDATE `user` SET `email_verified_at` = `createdAt`;
+
+-- CreateTable
+CREATE TABLE `user_token` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `purpose` ENUM('verify_email', 'reset_password') NOT NULL,
+    `token_hash` CHAR(64) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `usedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `user_token_token_hash_key`(`token_hash`),
+    INDEX `user_token_user_id_purpose_idx`(`user_id`, `purpose`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_token` ADD CONSTRAINT `user_token_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
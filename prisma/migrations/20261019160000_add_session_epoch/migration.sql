@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `session_epoch` INTEGER UNSIGNED NOT NULL DEFAULT 0;
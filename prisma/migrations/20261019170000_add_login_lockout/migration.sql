@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `login_lockout` (
+    `id` VARCHAR(36) NOT NULL,
+    `scope` ENUM('account', 'ip') NOT NULL,
+    `target` VARCHAR(254) NOT NULL,
+    `user_id` VARCHAR(36) NULL,
+    `ip` VARCHAR(45) NOT NULL,
+    `failures` INTEGER UNSIGNED NOT NULL,
+    `lockedUntil` DATETIME(3) NOT NULL,
+    `unlockedAt` DATETIME(3) NULL,
+    `unlocked_by_id` VARCHAR(36) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `login_lockout_target_idx`(`target`),
+    INDEX `login_lockout_user_id_idx`(`user_id`),
+    INDEX `login_lockout_unlocked_by_id_idx`(`unlocked_by_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `login_lockout` ADD CONSTRAINT `login_lockout_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `login_lockout` ADD CONSTRAINT `login_lockout_unlocked_by_id_fkey` FOREIGN KEY (`unlocked_by_id`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
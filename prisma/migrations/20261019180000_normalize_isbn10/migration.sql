@@ -0,0 +1,47 @@
+-- ISBN-10 のまま保存されている書籍を ISBN-13 (978 始まり) にそろえる
+-- 入力は parseIsbn で ISBN-13 に変換しているが、変換を入れる前に登録された行が残っているため
+-- 所蔵・貸出・予約・著者・タグは外部キーの ON UPDATE CASCADE で一緒に変わる
+-- チェックディジットが正しくない行と、変換後の ISBN が既に登録されている行はそのまま残す
+
+-- 変換する行と変換後の ISBN (作業用)
+CREATE TABLE `_isbn10_book` (
+    `isbn` BIGINT UNSIGNED NOT NULL,
+    `digits` CHAR(10) NOT NULL,
+    `isbn13` BIGINT UNSIGNED NULL,
+
+    PRIMARY KEY (`isbn`)
+);
+
+INSERT INTO `_isbn10_book` (`isbn`, `digits`)
+SELECT `isbn`, LPAD(`isbn`, 10, '0')
+FROM `book`
+WHERE `isbn` < 10000000000;
+
+-- ISBN-10 のチェックディジット (重み 10〜1 の和が 11 の倍数)
+DELETE FROM `_isbn10_book`
+WHERE MOD(
+    10 * SUBSTRING(`digits`, 1, 1) + 9 * SUBSTRING(`digits`, 2, 1) + 8 * SUBSTRING(`digits`, 3, 1)
+    + 7 * SUBSTRING(`digits`, 4, 1) + 6 * SUBSTRING(`digits`, 5, 1) + 5 * SUBSTRING(`digits`, 6, 1)
+    + 4 * SUBSTRING(`digits`, 7, 1) + 3 * SUBSTRING(`digits`, 8, 1) + 2 * SUBSTRING(`digits`, 9, 1)
+    + SUBSTRING(`digits`, 10, 1),
+    11
+) <> 0;
+
+-- 978 + 先頭9桁 + ISBN-13 のチェックディジット (重み 1, 3 の繰り返し)
+UPDATE `_isbn10_book`
+SET `isbn13` = 9780000000000 + 10 * LEFT(`digits`, 9) + MOD(10 - MOD(
+    9 + 3 * 7 + 8
+    + 3 * SUBSTRING(`digits`, 1, 1) + SUBSTRING(`digits`, 2, 1) + 3 * SUBSTRING(`digits`, 3, 1)
+    + SUBSTRING(`digits`, 4, 1) + 3 * SUBSTRING(`digits`, 5, 1) + SUBSTRING(`digits`, 6, 1)
+    + 3 * SUBSTRING(`digits`, 7, 1) + SUBSTRING(`digits`, 8, 1) + 3 * SUBSTRING(`digits`, 9, 1),
+    10
+), 10);
+
+DELETE FROM `_isbn10_book`
+WHERE `isbn13` IN (SELECT `isbn` FROM `book`);
+
+UPDATE `book`
+JOIN `_isbn10_book` ON `_isbn10_book`.`isbn` = `book`.`isbn`
+SET `book`.`isbn` = `_isbn10_book`.`isbn13`;
+
+DROP TABLE `_isbn10_book`;
@@ -4,23 +4,29 @@ import path from 'node:path'
 import cookieParser from 'cookie-parser'
 import logger from 'morgan'
 import session from 'express-session'
-import {RedisStore} from 'connect-redis'
-import {createClient} from 'redis'
 import {cdate} from 'cdate'
 
 import passport from './libs/auth.js'
+import {sessionStore, trackSession} from './libs/sessions.js'
 
 import indexRouter from './routes/index.js'
 import usersRouter from './routes/users.js'
 import bookRouter from './routes/book.js'
+import authorRouter from './routes/author.js'
+import publisherRouter from './routes/publisher.js'
 import adminRouter from './routes/admin.js' // ★追加
+import apiRouter from './routes/api.js'
 
 const app = express()
 
-const redisClient = await createClient({url: process.env.REDIS_URL})
-    .on('error', (err: Error) => console.error(err))
-    .connect()
-const redisStore = new RedisStore({client: redisClient})
+// リバースプロキシの後ろで動かす場合は TRUST_PROXY を設定する (req.ip が X-Forwarded-For の値になる)
+// ログイン失敗の回数などを IP アドレスで数えるので、信頼できるプロキシだけを指定すること
+//   数字: 手前のプロキシの段数 / それ以外: プロキシのアドレスの一覧 (例: loopback, 10.0.0.0/8)
+// 未設定なら X-Forwarded-For は使わない (接続元のアドレスをそのまま使う)
+const trustProxy = process.env.TRUST_PROXY
+if (trustProxy) {
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy)
+}
 
 // view engine setup
 app.set('views', path.join(import.meta.dirname, 'views'))
@@ -40,10 +46,13 @@ app.use(session({
         maxAge: 1000 * 60 * 60,
         httpOnly: true,
     },
-    store: redisStore
+    store: sessionStore
 }))
 app.use(passport.authenticate('session'))
+app.use(trackSession)
 app.use('/book', bookRouter) // この設定でURLが /book/list/1 になります
+app.use('/author', authorRouter)
+app.use('/publisher', publisherRouter)
 
 app.locals.dateFormat = (dt:Date) => cdate(dt)
     .tz('Asia/Tokyo')
@@ -52,6 +61,7 @@ app.locals.dateFormat = (dt:Date) => cdate(dt)
 app.use('/', indexRouter)
 app.use('/users', usersRouter)
 app.use('/admin', adminRouter) // ★追加: /admin/author でアクセス可能に
+app.use('/api', apiRouter)
 
 // catch 404 and forward to error handler
 app.use(async (req: Request, res: Response, next: NextFunction) => {
@@ -65,8 +75,14 @@ app.use(async (err: unknown, req: Request, res: Response, next: NextFunction) =>
     res.locals.error = req.app.get('env') === 'development' ? err : {}
 
     // render the error page
-    res.status(hasProperty(err, 'status') && Number(err.status) || 500)
-    res.render('error')
+    const status = hasProperty(err, 'status') && Number(err.status) || 500
+    res.status(status)
+    res.format({
+        html: () => res.render('error'),
+        // JSON は他の API と同じ {message} で返す (500 の詳細は出さない)
+        json: () => res.json({message: status < 500 ? res.locals.message : 'サーバーエラーが発生しました'}),
+        default: () => res.render('error')
+    })
 })
 
 // unknown 型のデータが、指定のプロパティを持っているかチェックするための関数
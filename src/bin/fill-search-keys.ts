@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * 著者名・出版社名の search_key を埋める (1回だけ実行するスクリプト)
+ * 20261019130000_add_search_key のマイグレーションを適用した後に実行する
+ *   npm run db:fill-search-keys
+ * search_key が空の行だけを ID 順に BATCH_SIZE 件ずつ処理する
+ * 正規化すると空になる名前 (記号だけなど) は空のまま残るが、ID 順に進むので同じ行を何度も処理しない
+ */
+import prisma from '../libs/db.js'
+import {NameModel, toSearchKey} from '../libs/search.js'
+
+const BATCH_SIZE = 500
+
+async function fetchBatch(model: NameModel, after: string) {
+    const args = {
+        where: {search_key: '', id: {gt: after}},
+        select: {id: true, name: true},
+        orderBy: {id: 'asc' as const},
+        take: BATCH_SIZE
+    }
+    return model === 'author' ? prisma.author.findMany(args) : prisma.publisher.findMany(args)
+}
+
+function updateKey(model: NameModel, id: string, searchKey: string) {
+    const args = {where: {id}, data: {search_key: searchKey}}
+    return model === 'author' ? prisma.author.update(args) : prisma.publisher.update(args)
+}
+
+for (const model of ['author', 'publisher'] as NameModel[]) {
+    let after = ''
+    let filled = 0
+    for (;;) {
+        const rows = await fetchBatch(model, after)
+        if (rows.length === 0) {
+            break
+        }
+        const updates = rows
+            .map(row => ({id: row.id, searchKey: toSearchKey(row.name)}))
+            .filter(row => row.searchKey !== '')
+        await prisma.$transaction(updates.map(row => updateKey(model, row.id, row.searchKey)))
+        filled += updates.length
+        after = rows[rows.length - 1].id
+    }
+    console.log(`${model}: ${filled} 件の search_key を埋めました`)
+}
+
+await prisma.$disconnect()
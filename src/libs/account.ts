@@ -0,0 +1,144 @@
+import createError from 'http-errors'
+import {randomBytes} from 'node:crypto'
+import prisma from './db.js'
+import {sendMail} from './mailer.js'
+import {hashToken} from './token.js'
+import {recordAudit} from './audit.js'
+import {promoteNextReservation} from './reservation.js'
+
+// メールアドレスの確認とパスワード再設定、退会
+// リンクに付けるトークンは使い捨てで、DBにはハッシュだけを保存する (api_token と同じ)
+
+export type UserTokenPurpose = 'verify_email' | 'reset_password'
+
+// 有効期限 (ミリ秒)
+const TOKEN_TTL: {[P in UserTokenPurpose]: number} = {
+  verify_email: 24 * 60 * 60 * 1000,
+  reset_password: 60 * 60 * 1000
+}
+
+// メール本文のリンクの起点
+// リクエストの Host ヘッダーは送り手が自由に書けるので使わない (再設定リンクを他のホストに向けられてしまう)
+if (!process.env.APP_URL) {
+  throw new Error('APP_URL (例: https://library.example.com) を設定してください')
+}
+const APP_URL = new URL(process.env.APP_URL).href.replace(/\/+$/, '')
+
+// 同じ用途の未使用トークンは無効にしてから新しく発行する
+export async function issueUserToken(userId: string, purpose: UserTokenPurpose) {
+  const now = new Date()
+  await prisma.user_token.updateMany({
+    where: {user_id: userId, purpose, usedAt: null},
+    data: {usedAt: now}
+  })
+  const token = randomBytes(32).toString('base64url')
+  await prisma.user_token.create({
+    data: {
+      user_id: userId,
+      purpose,
+      token_hash: hashToken(token),
+      expiresAt: new Date(now.getTime() + TOKEN_TTL[purpose])
+    }
+  })
+  return token
+}
+
+// トークンを使用済みにしてユーザーIDを返す (同時に使われても1回だけ成功する)
+export async function consumeUserToken(token: string, purpose: UserTokenPurpose) {
+  const record = await prisma.user_token.findUnique({where: {token_hash: hashToken(token)}})
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+    throw createError(400, 'リンクが無効か、有効期限が切れています')
+  }
+  const {count} = await prisma.user_token.updateMany({
+    where: {id: record.id, usedAt: null},
+    data: {usedAt: new Date()}
+  })
+  if (count === 0) {
+    throw createError(400, 'リンクが無効か、有効期限が切れています')
+  }
+  return record.user_id as string
+}
+
+export async function sendVerificationMail(user: {id: string, name: string, email: string}) {
+  const token = await issueUserToken(user.id, 'verify_email')
+  await sendMail({
+    to: user.email,
+    subject: 'メールアドレスの確認',
+    text: [
+      `${user.name} 様`,
+      '',
+      '次のリンクを開いて、メールアドレスの確認を完了してください (24時間有効)。',
+      `${APP_URL}/users/verify?token=${token}`,
+      '',
+      '確認が済むまでは本を借りることができません。'
+    ].join('\n')
+  })
+}
+
+export async function sendPasswordResetMail(user: {id: string, name: string, email: string}) {
+  const token = await issueUserToken(user.id, 'reset_password')
+  await sendMail({
+    to: user.email,
+    subject: 'パスワードの再設定',
+    text: [
+      `${user.name} 様`,
+      '',
+      '次のリンクを開いて、新しいパスワードを設定してください (1時間有効)。',
+      `${APP_URL}/users/reset?token=${token}`,
+      '',
+      'このメールに心当たりがない場合は、何もしなくてかまいません。'
+    ].join('\n')
+  })
+}
+
+// パスワード再設定メールを送る (登録のないメールアドレスなら何もしない)
+export async function requestPasswordReset(email: string) {
+  const user = await prisma.user.findUnique({where: {email}})
+  if (user && !user.isDeleted) {
+    await sendPasswordResetMail(user)
+  }
+}
+
+// メールアドレスの確認が済んでいるか
+export async function isEmailVerified(userId: string) {
+  const user = await prisma.user.findUnique({where: {id: userId}, select: {email_verified_at: true}})
+  return !!user?.email_verified_at
+}
+
+// 退会 (貸出中の本があれば 409)
+// 予約は取り消して取り置き中だったものは次の予約者へ回し、API トークンは無効にする
+// 記録 (貸出履歴・延滞料など) は残すため、user.isDeleted による論理削除にする
+// 利用者の行をロックしてから貸出を確認する。checkoutBook も先に同じ行をロックするので、確認の後に貸出されることはない
+export async function deleteAccount(userId: string) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM \`user\` WHERE id = ${userId} FOR UPDATE`
+    const openLoans = await tx.rental_log.count({where: {user_id: userId, returned_date: null}})
+    if (openLoans > 0) {
+      throw createError(409, `貸出中の本(${openLoans}冊)を返却してから退会してください`)
+    }
+
+    const reservations = await tx.reservation.findMany({
+      where: {user_id: userId, status: {in: ['waiting', 'ready']}}
+    })
+    await tx.reservation.updateMany({
+      where: {id: {in: reservations.map(r => r.id)}},
+      data: {status: 'cancelled'}
+    })
+    for (const reservation of reservations.filter(r => r.status === 'ready')) {
+      await promoteNextReservation(reservation.book_isbn, tx)
+    }
+
+    await tx.api_token.updateMany({
+      where: {user_id: userId, revokedAt: null},
+      data: {revokedAt: new Date()}
+    })
+    await tx.user.update({
+      where: {id: userId},
+      data: {isDeleted: true, session_epoch: {increment: 1}}
+    })
+    await recordAudit({
+      actorId: userId, action: 'delete_account', entity: 'user', entityId: userId,
+      before: {isDeleted: false}, after: {isDeleted: true, cancelled_reservations: reservations.length}
+    }, tx)
+  })
+}
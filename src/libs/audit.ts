@@ -0,0 +1,55 @@
+import {Prisma} from 'db'
+import prisma from './db.js'
+
+export type AuditEntry = {
+  actorId?: string | null
+  action: string
+  entity: string
+  entityId: string | bigint
+  before?: unknown
+  after?: unknown
+}
+
+// JSON列に保存できる形にする (BigInt は文字列、パスワードハッシュは除く)
+function toJson(value: unknown) {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  return JSON.parse(JSON.stringify(value, (key, v) => {
+    if (key === 'password') return undefined
+    return typeof v === 'bigint' ? v.toString() : v
+  }))
+}
+
+// 監査ログを書き込めるクライアント (prisma 本体か $transaction のクライアント)
+// ルートは @prisma/client の PrismaClient を使うので、DbClient ではなく使う部分だけの型で受け取る
+type AuditClient = {
+  audit_log: {
+    create(args: {
+      data: {
+        actor_id: string | null
+        action: string
+        entity: string
+        entity_id: string
+        before?: Prisma.InputJsonValue
+        after?: Prisma.InputJsonValue
+      }
+    }): PromiseLike<unknown>
+  }
+}
+
+// 監査ログを1件記録する
+// actor: 操作したユーザー, before/after: 変更前後の値
+// 変更と同じ $transaction のクライアントを渡し、変更だけが残って記録が抜けることのないようにする
+export async function recordAudit({actorId, action, entity, entityId, before, after}: AuditEntry, db: AuditClient = prisma) {
+  await db.audit_log.create({
+    data: {
+      actor_id: actorId ?? null,
+      action,
+      entity,
+      entity_id: entityId.toString(),
+      before: toJson(before),
+      after: toJson(after)
+    }
+  })
+}
@@ -1,47 +1,134 @@
+import {NextFunction, Request, Response} from 'express'
 import passport from 'passport'
 import {Strategy as LocalStrategy} from 'passport-local'
+import {Strategy as BearerStrategy} from 'passport-http-bearer'
 import argon2 from 'argon2'
 import prisma from './db.js'
+import {findTokenUser, scopeAllows, TokenScope} from './token.js'
+import {isEmailVerified} from './account.js'
+import {beginLoginAttempt, recordLoginFailure, recordLoginSuccess} from './lockout.js'
+
+// 失敗が続くと応答を遅らせ、さらに続くとロックする (lockout.ts)
+// ロック中もパスワード違いと同じ応答にして、ロックされたことやアカウントの有無がわからないようにする
+const LOGIN_FAILED = {message: 'メールアドレスまたはパスワードが違います'}
 
 passport.use(new LocalStrategy({
   usernameField: 'email',
-  passwordField: 'password'
-}, async (username, password, done) => {
+  passwordField: 'password',
+  passReqToCallback: true
+}, async (req, username, password, done) => {
   try {
+    const ip = req.ip ?? ''
+    if (await beginLoginAttempt(username, ip)) {
+      return done(null, false, LOGIN_FAILED)
+    }
+
     // ユーザー情報を取ってくる
     const user = await prisma.user.findUnique({where: {email: username}})
-    if (!user) {
-      // ユーザー情報がないということはログイン失敗
-      return done(null, false,
-        {message: 'メールアドレスまたはパスワードが違います'}
-      )
-    }
-    if (!await argon2.verify(user.password, password)) {
-      // パスワードのハッシュ値が異なるのでログイン失敗
-      return done(null, false,
-        {message: 'メールアドレスまたはパスワードが違います'}
-      )
+    if (!user || user.isDeleted || !await argon2.verify(user.password, password)) {
+      // ユーザー情報がない (または無効化されている)、パスワードのハッシュ値が異なるのでログイン失敗
+      await recordLoginFailure(username, ip)
+      return done(null, false, LOGIN_FAILED)
     }
     // メールアドレスとパスワードの組み合わせが正しいのでログイン成功
-    return done(null, {id: user.id, name: user.name})
+    await recordLoginSuccess(username, ip)
+    return done(null, {id: user.id, name: user.name, epoch: user.session_epoch})
+  } catch (e) {
+    return done(e)
+  }
+}))
+
+// API用: Authorization: Bearer <token> で送られた個人アクセストークンで認証する
+passport.use(new BearerStrategy(async (token, done) => {
+  try {
+    const user = await findTokenUser(token)
+    if (!user) {
+      return done(null, false)
+    }
+    return done(null, user, {scope: user.token.scopes})
   } catch (e) {
     return done(e)
   }
 }))
 
+// セッションに保存するのは ID と epoch だけ (名前などは毎回 DB から取り直す)
+type SessionUser = {
+  id: string
+  epoch?: number
+}
+
 // セッションストレージにユーザー情報を保存する際の処理
-passport.serializeUser<Express.User>((user, done) => {
+passport.serializeUser<SessionUser>((user, done) => {
   process.nextTick(() => {
-    done(null, user)
+    done(null, {id: user.id, epoch: user.epoch})
   })
 })
 
 // セッションストレージから serializeUser 関数によって保存されたユーザー情報を
 // 取ってきた直後になにかする設定
-passport.deserializeUser<Express.User>((user, done) => {
-  process.nextTick(() => {
-    done(null, user)
-  })
+// 無効化されたユーザーと、パスワード変更などより前のセッションはここで未ログイン扱いにする
+passport.deserializeUser<SessionUser>(async (user, done) => {
+  try {
+    const current = await prisma.user.findUnique({where: {id: user.id}})
+    if (!current || current.isDeleted || (user.epoch ?? 0) !== current.session_epoch) {
+      return done(null, false)
+    }
+    return done(null, {id: current.id, name: current.name, epoch: current.session_epoch})
+  } catch (e) {
+    return done(e)
+  }
 })
 
+// session_epoch を増やした後に、今のセッションだけを新しい epoch でログインし直す
+export function refreshLogin(req: Request, epoch: number) {
+  return new Promise<void>((resolve, reject) => {
+    req.login({...req.user!, epoch}, err => err ? reject(err) : resolve())
+  })
+}
+
+// トークンでのアクセスを受け付けるルートに付けるミドルウェア
+// トークンがなければ今まで通りセッション (または未ログイン) として扱う
+// X-API-Key ヘッダーで送られたトークンも Bearer と同じように受け付ける
+// トークンの認証結果はセッションに保存しない
+export function acceptToken(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = req.get('x-api-key')
+    if (apiKey && !req.get('authorization')) {
+      req.headers.authorization = `Bearer ${apiKey}`
+    }
+    if (!req.get('authorization')) {
+      return next()
+    }
+
+    passport.authenticate('bearer', {session: false}, (err: any, user: Express.User | false) => {
+      if (err) {
+        return next(err)
+      }
+      if (!user) {
+        res.set('WWW-Authenticate', 'Bearer error="invalid_token"')
+        return res.status(401).json({message: 'トークンが無効です'})
+      }
+      if (!scopeAllows(user.token!.scopes, scope)) {
+        res.set('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`)
+        return res.status(403).json({message: `このトークンでは利用できません (${scope} が必要です)`})
+      }
+      req.login(user, {session: false}, next)
+    })(req, res, next)
+  }
+}
+
+// メールアドレスの確認が済んでいないユーザーには使わせないルートに付けるミドルウェア
+// 未ログインの場合は各ルートの処理 (401) に任せる
+export async function requireVerifiedEmail(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || await isEmailVerified(req.user.id)) {
+    return next()
+  }
+  res.status(403).json({message: 'メールアドレスの確認が済んでいないため利用できません'})
+}
+
+// セッションでログインしていれば常に true、トークンならそのスコープで判定する
+export function userAllows(user: Express.User | undefined, scope: TokenScope) {
+  return !!user && (!user.token || scopeAllows(user.token.scopes, scope))
+}
+
 export default passport
\ No newline at end of file
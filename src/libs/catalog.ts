@@ -0,0 +1,218 @@
+import prisma, {DbClient} from './db.js'
+import {parseCsv, stringifyCsv} from './csv.js'
+import {parseIsbn} from './isbn.js'
+import {nextBarcode} from './copy.js'
+import {recordAudit} from './audit.js'
+import {toSearchKey} from './search.js'
+import {ContributorRole, formatContributorCell, parseContributorCell} from './contributor.js'
+
+// CSVの列順 (1行目が見出し行の場合は読み飛ばす)
+// author 列には著者・訳者などを ; 区切りで複数書ける (contributor.ts 参照)
+export const CSV_COLUMNS = ['isbn', 'title', 'author', 'publisher', 'year', 'month']
+
+// 取り込みのトランザクションの制限時間 (既定の5秒では行数が多いと足りない)
+const IMPORT_TIMEOUT_MS = 60 * 1000
+
+export type ImportRow = {
+  line: number
+  action: 'insert' | 'update' | 'reject'
+  isbn: string | null
+  title: string
+  author: string
+  contributors: {name: string, role: ContributorRole}[]
+  publisher: string
+  year: number
+  month: number
+  new_authors: string[]
+  new_publisher: boolean
+  errors: string[]
+}
+
+export type ImportReport = {
+  rows: ImportRow[]
+  summary: {insert: number, update: number, reject: number}
+}
+
+// CSVを検証して、登録・更新・却下のどれになるかを判定する (DBは変更しない)
+export async function analyzeImport(text: string): Promise<ImportReport> {
+  const records = parseCsv(text)
+  if (records.length > 0 && records[0][0]?.trim().toLowerCase() === 'isbn') {
+    records.shift()
+  }
+
+  const seen = new Set<string>()
+  const rows: ImportRow[] = records.map((cells, index) => {
+    const [isbnCell, title, author, publisher, yearCell, monthCell] = cells.map(c => (c ?? '').trim())
+    const errors: string[] = []
+
+    const isbn = parseIsbn(isbnCell)
+    if (isbn === null) {
+      errors.push(`ISBNが不正です (${isbnCell || '空欄'})`)
+    } else if (seen.has(isbn.toString())) {
+      errors.push('ファイル内でISBNが重複しています')
+    } else {
+      seen.add(isbn.toString())
+    }
+
+    if (!title) errors.push('書名がありません')
+    else if (title.length > 512) errors.push('書名が長すぎます')
+    const {contributors, errors: contributorErrors} = parseContributorCell(author ?? '')
+    errors.push(...contributorErrors)
+    if (contributors.length === 0 && contributorErrors.length === 0) errors.push('著者名がありません')
+    if (!publisher) errors.push('出版社名がありません')
+    else if (publisher.length > 128) errors.push('出版社名が長すぎます')
+
+    const year = Number(yearCell)
+    if (!Number.isInteger(year) || year < 1 || year > 9999) errors.push('出版年が不正です')
+    const month = Number(monthCell)
+    if (!Number.isInteger(month) || month < 1 || month > 12) errors.push('出版月が不正です')
+
+    return {
+      line: index + 1,
+      action: errors.length > 0 ? 'reject' : 'insert',
+      isbn: isbn === null ? null : isbn.toString(),
+      title: title ?? '',
+      author: author ?? '',
+      contributors,
+      publisher: publisher ?? '',
+      year,
+      month,
+      new_authors: [],
+      new_publisher: false,
+      errors
+    }
+  })
+
+  // 既存の書籍・著者・出版社と突き合わせる
+  const valid = rows.filter(row => row.action !== 'reject')
+  const [books, authors, publishers] = await Promise.all([
+    prisma.book.findMany({
+      where: {isbn: {in: valid.map(row => BigInt(row.isbn as string))}},
+      select: {isbn: true}
+    }),
+    prisma.author.findMany({
+      where: {isDeleted: false, name: {in: valid.flatMap(row => row.contributors.map(c => c.name))}},
+      select: {name: true}
+    }),
+    prisma.publisher.findMany({
+      where: {isDeleted: false, name: {in: valid.map(row => row.publisher)}},
+      select: {name: true}
+    })
+  ])
+  const existingIsbns = new Set(books.map(b => b.isbn.toString()))
+  const authorNames = new Set(authors.map(a => a.name))
+  const publisherNames = new Set(publishers.map(p => p.name))
+
+  for (const row of valid) {
+    row.action = row.isbn !== null && existingIsbns.has(row.isbn) ? 'update' : 'insert'
+    row.new_authors = [...new Set(row.contributors.map(c => c.name).filter(name => !authorNames.has(name)))]
+    row.new_publisher = !publisherNames.has(row.publisher)
+  }
+
+  return {
+    rows,
+    summary: {
+      insert: rows.filter(row => row.action === 'insert').length,
+      update: rows.filter(row => row.action === 'update').length,
+      reject: rows.filter(row => row.action === 'reject').length
+    }
+  }
+}
+
+// 判定結果に従って登録・更新する (却下行は無視)
+// 著者・出版社は名前で検索し、なければ作成する
+// 全行と監査ログを1つのトランザクションで書き込む (途中で失敗したら何も登録しない)
+export async function applyImport(report: ImportReport, actorId: string) {
+  await prisma.$transaction(async (tx) => {
+    await applyRows(report, actorId, tx)
+    await recordAudit({actorId, action: 'import', entity: 'book', entityId: 'csv', after: report.summary}, tx)
+  }, {timeout: IMPORT_TIMEOUT_MS})
+}
+
+// 作成・更新した書籍・著者・出版社ごとにも、画面からの操作と同じ形で監査ログを残す
+async function applyRows(report: ImportReport, actorId: string, db: DbClient) {
+  const authorIds = new Map<string, string>()
+  const publisherIds = new Map<string, string>()
+
+  const resolveAuthor = async (name: string) => {
+    if (!authorIds.has(name)) {
+      const found = await db.author.findFirst({where: {isDeleted: false, name}})
+      const author = found || await db.author.create({data: {name, search_key: toSearchKey(name)}})
+      if (!found) {
+        await recordAudit({actorId, action: 'create', entity: 'author', entityId: author.id, after: author}, db)
+      }
+      authorIds.set(name, author.id)
+    }
+    return authorIds.get(name) as string
+  }
+  const resolvePublisher = async (name: string) => {
+    if (!publisherIds.has(name)) {
+      const found = await db.publisher.findFirst({where: {isDeleted: false, name}})
+      const publisher = found || await db.publisher.create({data: {name, search_key: toSearchKey(name)}})
+      if (!found) {
+        await recordAudit({actorId, action: 'create', entity: 'publisher', entityId: publisher.id, after: publisher}, db)
+      }
+      publisherIds.set(name, publisher.id)
+    }
+    return publisherIds.get(name) as string
+  }
+
+  for (const row of report.rows) {
+    if (row.action === 'reject') {
+      continue
+    }
+    const isbn = BigInt(row.isbn as string)
+    const data = {
+      title: row.title,
+      publisher_id: await resolvePublisher(row.publisher),
+      publication_year: row.year,
+      publication_month: row.month
+    }
+    const contributors = []
+    for (const [position, c] of row.contributors.entries()) {
+      contributors.push({author_id: await resolveAuthor(c.name), role: c.role, position})
+    }
+
+    if (row.action === 'update') {
+      // 削除済みの書籍は取り込みによって復活させる
+      const before = await db.book.findUnique({where: {isbn}, include: {contributors: true}})
+      const updated = await db.book.update({
+        where: {isbn},
+        data: {...data, isDeleted: false, contributors: {deleteMany: {}, create: contributors}},
+        include: {contributors: true}
+      })
+      await recordAudit({actorId, action: 'update', entity: 'book', entityId: isbn, before, after: updated}, db)
+    } else {
+      const created = await db.book.create({
+        data: {isbn, ...data, contributors: {create: contributors}},
+        include: {contributors: true}
+      })
+      const copy = await db.book_copy.create({data: {book_isbn: isbn, barcode: await nextBarcode(isbn, db)}})
+      await recordAudit({actorId, action: 'create', entity: 'book', entityId: isbn, after: {...created, barcode: copy.barcode}}, db)
+    }
+  }
+}
+
+// 現在の蔵書をCSVに書き出す (取り込みと同じ列順)
+export async function exportCatalog() {
+  const books = await prisma.book.findMany({
+    where: {isDeleted: false},
+    orderBy: {isbn: 'asc'},
+    include: {
+      contributors: {include: {author: true}, orderBy: {position: 'asc'}},
+      publisher: true
+    }
+  })
+
+  return stringifyCsv([
+    CSV_COLUMNS,
+    ...books.map(book => [
+      book.isbn.toString(),
+      book.title,
+      formatContributorCell(book.contributors.map(c => ({name: c.author.name, role: c.role}))),
+      book.publisher.name,
+      book.publication_year,
+      book.publication_month
+    ])
+  ])
+}
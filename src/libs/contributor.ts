@@ -0,0 +1,108 @@
+import createError from 'http-errors'
+
+export type ContributorRole = 'author' | 'translator' | 'editor' | 'illustrator'
+
+export const CONTRIBUTOR_ROLES: ContributorRole[] = ['author', 'translator', 'editor', 'illustrator']
+
+// 画面表示用の役割名
+export const CONTRIBUTOR_ROLE_LABELS: { [R in ContributorRole]: string } = {
+  author: '著',
+  translator: '訳',
+  editor: '編',
+  illustrator: '絵'
+}
+
+export type ContributorInput = {
+  author_id: string
+  role: ContributorRole
+}
+
+// フォーム・JSONの入力を著者IDと役割の配列にする (並び順がそのまま表示順になる)
+// contributors がなければ従来の author_id を1人目の著者として扱う
+export function parseContributors(body: any): ContributorInput[] {
+  let items: any[] = []
+  if (Array.isArray(body.contributors)) {
+    items = body.contributors
+  } else if (body.contributors && typeof body.contributors === 'object') {
+    // urlencoded の contributors[0][author_id] はオブジェクトになる場合がある
+    items = Object.keys(body.contributors)
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => body.contributors[key])
+  } else if (body.author_id) {
+    items = [{author_id: body.author_id, role: 'author'}]
+  }
+
+  const contributors: ContributorInput[] = []
+  for (const item of items) {
+    const authorId = typeof item?.author_id === 'string' ? item.author_id.trim() : ''
+    if (!authorId) {
+      continue
+    }
+    const role = item.role || 'author'
+    if (!CONTRIBUTOR_ROLES.includes(role)) {
+      throw createError(400, `役割が不正です (${role})`)
+    }
+    if (contributors.some(c => c.author_id === authorId && c.role === role)) {
+      throw createError(400, '同じ人物・役割が重複しています')
+    }
+    contributors.push({author_id: authorId, role})
+  }
+
+  if (contributors.length === 0) {
+    throw createError(400, '著者を1人以上指定してください')
+  }
+  return contributors
+}
+
+// book_contributor に保存する行 (position は 0 始まり)
+export function toContributorRows(contributors: ContributorInput[]) {
+  return contributors.map((c, index) => ({author_id: c.author_id, role: c.role, position: index}))
+}
+
+// 一覧・詳細で返す形にする
+export function formatContributors(rows: {role: ContributorRole, position: number, author: {id: string, name: string}}[]) {
+  return [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map(row => ({
+      id: row.author.id,
+      name: row.author.name,
+      role: row.role,
+      role_label: CONTRIBUTOR_ROLE_LABELS[row.role]
+    }))
+}
+
+// 表示用の1行 (例: "山田太郎 著 / 佐藤花子 訳")
+export function contributorSummary(contributors: {name: string, role_label: string}[]) {
+  return contributors.map(c => `${c.name} ${c.role_label}`).join(' / ')
+}
+
+// CSVの著者列: "山田太郎; translator:佐藤花子" のように ; で区切る
+// 役割は英語名か表示名 (訳:佐藤花子) で前に付ける。省略時は author
+export const CSV_SEPARATOR = ';'
+
+export function parseContributorCell(cell: string) {
+  const contributors: {name: string, role: ContributorRole}[] = []
+  const errors: string[] = []
+  for (const part of cell.split(CSV_SEPARATOR).map(p => p.trim()).filter(Boolean)) {
+    // 前に付いているのが役割でなければ、コロンを含む名前として扱う
+    const match = part.match(/^([^:：]+)[:：](.+)$/)
+    const key = match ? match[1].trim() : ''
+    const found = CONTRIBUTOR_ROLES.find(r => r === key || CONTRIBUTOR_ROLE_LABELS[r] === key)
+    const role: ContributorRole = found ?? 'author'
+    const name = found && match ? match[2].trim() : part
+    if (name.length > 128) {
+      errors.push('著者名が長すぎます')
+    } else if (contributors.some(c => c.name === name && c.role === role)) {
+      errors.push(`著者が重複しています (${name})`)
+    } else {
+      contributors.push({name, role})
+    }
+  }
+  return {contributors, errors}
+}
+
+export function formatContributorCell(contributors: {name: string, role: ContributorRole}[]) {
+  return contributors
+    .map(c => c.role === 'author' ? c.name : `${c.role}:${c.name}`)
+    .join(`${CSV_SEPARATOR} `)
+}
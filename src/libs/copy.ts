@@ -0,0 +1,47 @@
+import prisma, {DbClient} from './db.js'
+
+// 貸出中の所蔵IDを取得する
+async function findLoanedCopyIds(isbn: bigint, db: DbClient = prisma) {
+  const openRentals = await db.rental_log.findMany({
+    where: {
+      book_isbn: isbn,
+      returned_date: null
+    },
+    select: {copy_id: true}
+  })
+  return openRentals.map(rental => rental.copy_id)
+}
+
+// 除籍されておらず、貸出中でもない所蔵の一覧
+export async function findFreeCopies(isbn: bigint, db: DbClient = prisma) {
+  const loaned = await findLoanedCopyIds(isbn, db)
+  return db.book_copy.findMany({
+    where: {
+      book_isbn: isbn,
+      isRetired: false,
+      id: {notIn: loaned}
+    },
+    orderBy: {createdAt: 'asc'}
+  })
+}
+
+// 所蔵数 (除籍済みを除く) と、そのうち貸出中でない冊数
+export async function countCopies(isbn: bigint) {
+  const [total, free] = await Promise.all([
+    prisma.book_copy.count({where: {book_isbn: isbn, isRetired: false}}),
+    findFreeCopies(isbn)
+  ])
+  return {total, free: free.length}
+}
+
+// 新しい所蔵のバーコードを採番する (ISBN-連番)
+export async function nextBarcode(isbn: bigint, db: DbClient = prisma) {
+  const count = await db.book_copy.count({where: {book_isbn: isbn}})
+  for (let n = count + 1; ; n++) {
+    const barcode = `${isbn}-${n}`
+    const exists = await db.book_copy.findUnique({where: {barcode}})
+    if (!exists) {
+      return barcode
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import createError from 'http-errors'
+import {mkdir, rm, stat, writeFile} from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
+
+// 書影 (表紙画像) の保存とサムネイル作成
+// 元画像は COVER_DIR に、縮小版は COVER_DIR/thumbs に置く (縮小版は初回表示時に作ってそのまま使い回す)
+
+export const COVER_DIR = path.resolve(process.env.COVER_DIR || path.join('uploads', 'covers'))
+const THUMB_DIR = path.join(COVER_DIR, 'thumbs')
+
+export const COVER_MAX_BYTES = 2 * 1024 * 1024
+
+// 受け付ける画像形式 (sharp が判定した形式 → 拡張子)
+const COVER_FORMATS: {[format: string]: string} = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp'
+}
+
+// サムネイルの幅 (これ以外の幅は一番近いものに丸める)
+export const THUMB_WIDTHS = [120, 240, 480]
+
+// 画像を検証して保存し、保存したファイル名を返す
+// ファイル名に時刻を含めて、差し替えたときに古いサムネイルが使われないようにする
+export async function saveCover(isbn: bigint, buffer: Buffer) {
+  let format: string | undefined
+  try {
+    format = (await sharp(buffer).metadata()).format
+  } catch {
+    format = undefined
+  }
+  const ext = format ? COVER_FORMATS[format] : undefined
+  if (!ext) {
+    throw createError(400, '画像は JPEG / PNG / WebP のいずれかにしてください')
+  }
+
+  await mkdir(COVER_DIR, {recursive: true})
+  const fileName = `${isbn}-${Date.now()}.${ext}`
+  await writeFile(path.join(COVER_DIR, fileName), buffer)
+  return fileName
+}
+
+// 元画像とサムネイルを削除する (既にない場合は何もしない)
+export async function removeCover(fileName: string) {
+  const base = path.parse(fileName).name
+  await Promise.all([
+    rm(path.join(COVER_DIR, fileName), {force: true}),
+    ...THUMB_WIDTHS.map(width => rm(path.join(THUMB_DIR, `${base}-${width}.webp`), {force: true}))
+  ])
+}
+
+export function thumbWidth(requested: unknown) {
+  const width = parseInt(String(requested), 10)
+  if (isNaN(width)) {
+    return THUMB_WIDTHS[1]
+  }
+  return THUMB_WIDTHS.reduce((best, w) => Math.abs(w - width) < Math.abs(best - width) ? w : best)
+}
+
+// サムネイルのパスを返す。なければ作る
+export async function coverThumbnail(fileName: string, width: number) {
+  const thumbPath = path.join(THUMB_DIR, `${path.parse(fileName).name}-${width}.webp`)
+  const exists = await stat(thumbPath).then(() => true, () => false)
+  if (!exists) {
+    await mkdir(THUMB_DIR, {recursive: true})
+    await sharp(path.join(COVER_DIR, fileName))
+      .rotate()
+      .resize({width, withoutEnlargement: true})
+      .webp()
+      .toFile(thumbPath)
+  }
+  return thumbPath
+}
@@ -0,0 +1,58 @@
+// 簡易CSVパーサ (RFC 4180 相当: ダブルクォートによる囲み・エスケープ、改行入りセルに対応)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // 先頭のBOMは取り除く (Excelで保存したファイル対策)
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // 空行は除く
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+// 値をCSVのセルとして書き出す (必要な場合のみクォートする)
+function escapeCell(value: unknown) {
+  const str = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+export function stringifyCsv(rows: unknown[][]) {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
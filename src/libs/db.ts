@@ -1,5 +1,5 @@
 import {PrismaMariaDb} from '@prisma/adapter-mariadb'
-import {PrismaClient} from 'db'
+import {Prisma, PrismaClient} from 'db'
 
 const url = String(process.env.DATABASE_URL)
 const params = url.match(
@@ -17,3 +17,7 @@ const adapter = new PrismaMariaDb({
 const prisma = new PrismaClient({adapter})
 
 export default prisma
+
+// prisma 本体と $transaction のクライアントのどちらでも受け取れる型
+// トランザクションの中からも同じ関数を呼べるように、ライブラリの関数は省略可能な引数で受け取る
+export type DbClient = Prisma.TransactionClient
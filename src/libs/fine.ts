@@ -0,0 +1,110 @@
+import {cdate} from 'cdate'
+import createError from 'http-errors'
+import prisma, {DbClient} from './db.js'
+import {recordAudit} from './audit.js'
+
+// 延滞1日あたりの延滞料 (円)
+export const FINE_PER_DAY = 10
+// 未払いの延滞料がこの金額を超えると貸出できない (円)
+export const FINE_BLOCK_THRESHOLD = 500
+
+const DAY_MS = 1000 * 60 * 60 * 24
+// 延滞日数を数えるときの日付の区切り
+const TIME_ZONE = 'Asia/Tokyo'
+
+// 日本時間の日付を通し番号にする (1970-01-01 が 0)
+function dayNumber(date: Date) {
+  return Date.parse(cdate(date).tz(TIME_ZONE).format('YYYY-MM-DD')) / DAY_MS
+}
+
+// 返却期限からの延滞日数 (期限内なら 0)
+// 時刻ではなく日付で数える。期限日のうちに返せば、期限の時刻を過ぎていても延滞にしない
+export function daysLate(dueDate: Date, returnedDate: Date = new Date()) {
+  return Math.max(dayNumber(returnedDate) - dayNumber(dueDate), 0)
+}
+
+// 未返却かつ返却期限の日を過ぎているか
+export function isOverdue(rental: {due_date: Date, returned_date: Date | null}) {
+  return !rental.returned_date && daysLate(rental.due_date) > 0
+}
+
+// 延滞していれば延滞料を台帳に記録する
+export async function chargeLateFee(rental: {id: string, user_id: string, due_date: Date, returned_date: Date | null}, db: DbClient = prisma) {
+  const days = daysLate(rental.due_date, rental.returned_date || new Date())
+  if (days === 0) {
+    return null
+  }
+  return db.fine_ledger.create({
+    data: {
+      user_id: rental.user_id,
+      rental_id: rental.id,
+      type: 'charge',
+      amount: days * FINE_PER_DAY,
+      days_late: days
+    }
+  })
+}
+
+// 未払い残高 (延滞料の合計から支払い・免除を差し引いた額)
+export async function getFineBalance(userId: string, db: DbClient = prisma) {
+  const sums = await db.fine_ledger.groupBy({
+    by: ['type'],
+    where: {user_id: userId},
+    _sum: {amount: true}
+  })
+  return sums.reduce((balance: number, row) => {
+    const amount = row._sum.amount || 0
+    return row.type === 'charge' ? balance + amount : balance - amount
+  }, 0)
+}
+
+type PaymentOptions = {
+  userId: string
+  type: 'payment' | 'waiver'
+  amount: number
+  note?: string | null
+  staffId: string
+}
+
+// 支払い・免除を台帳に記録する (未払い残高を超える額は記録しない)
+// 利用者の行をロックしてから残高を確かめ、同時に記録されても残高がマイナスにならないようにする
+export async function recordFinePayment({userId, type, amount, note, staffId}: PaymentOptions) {
+  return prisma.$transaction(async (tx) => {
+    const users = await tx.$queryRaw<{id: string}[]>`SELECT id FROM \`user\` WHERE id = ${userId} FOR UPDATE`
+    if (users.length === 0) {
+      throw createError(404, 'ユーザーが見つかりません')
+    }
+    const balance = await getFineBalance(userId, tx)
+    if (amount > balance) {
+      throw createError(400, `未払い残高(${balance}円)を超えています`)
+    }
+    const entry = await tx.fine_ledger.create({
+      data: {
+        user_id: userId,
+        type,
+        amount,
+        note: note || null,
+        recorded_by: staffId
+      }
+    })
+    await recordAudit({actorId: staffId, action: type, entity: 'fine_ledger', entityId: entry.id, after: entry}, tx)
+    return {entry, balance: balance - amount}
+  })
+}
+
+// 残高のあるユーザー一覧 (管理画面用)
+export async function listOutstandingBalances() {
+  const sums = await prisma.fine_ledger.groupBy({
+    by: ['user_id', 'type'],
+    _sum: {amount: true}
+  })
+  const balances = new Map<string, number>()
+  for (const row of sums) {
+    const amount = row._sum.amount || 0
+    const current = balances.get(row.user_id) || 0
+    balances.set(row.user_id, row.type === 'charge' ? current + amount : current - amount)
+  }
+  return [...balances.entries()]
+    .filter(([, balance]) => balance > 0)
+    .map(([userId, balance]) => ({userId, balance}))
+}
@@ -0,0 +1,40 @@
+// ISBN-13 のチェックディジットを検証する
+export function isValidIsbn13(digits: string) {
+  if (!/^97[89]\d{10}$/.test(digits)) {
+    return false
+  }
+  const sum = digits.slice(0, 12).split('')
+    .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0)
+  return (10 - sum % 10) % 10 === Number(digits[12])
+}
+
+// ISBN-10 のチェックディジットを検証する (末尾の X は 10 を表す)
+export function isValidIsbn10(digits: string) {
+  if (!/^\d{9}[\dX]$/.test(digits)) {
+    return false
+  }
+  const sum = digits.split('')
+    .reduce((acc, d, i) => acc + (d === 'X' ? 10 : Number(d)) * (10 - i), 0)
+  return sum % 11 === 0
+}
+
+// ISBN-10 を ISBN-13 (978 始まり) に変換する
+export function isbn10To13(digits: string) {
+  const body = '978' + digits.slice(0, 9)
+  const sum = body.split('')
+    .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0)
+  return body + String((10 - sum % 10) % 10)
+}
+
+// 入力値 (ハイフン・空白入り可、ISBN-10/13 どちらも可) を検証し、
+// 保存形式である ISBN-13 の数値に変換する。不正な場合は null を返す
+export function parseIsbn(input: unknown) {
+  const digits = String(input ?? '').replace(/[-\s]/g, '').toUpperCase()
+  if (isValidIsbn13(digits)) {
+    return BigInt(digits)
+  }
+  if (isValidIsbn10(digits)) {
+    return BigInt(isbn10To13(digits))
+  }
+  return null
+}
@@ -0,0 +1,263 @@
+import createError from 'http-errors'
+import {Prisma} from 'db'
+import prisma from './db.js'
+import {findFreeCopies, nextBarcode} from './copy.js'
+import {chargeLateFee, FINE_BLOCK_THRESHOLD, getFineBalance, isOverdue} from './fine.js'
+import {dueDateFrom, getLoanPolicy} from './policy.js'
+import {demoteExcessHolds, findActiveHolds, promoteNextReservation} from './reservation.js'
+import {recordAudit} from './audit.js'
+
+// 貸出・返却の共通処理
+// 利用者本人の操作 (/book/rental, /users/return) とカウンターでの操作で共有する
+// 所蔵の追加・除籍も取り置きを付け替えるので、貸出と同じ順に行をロックしてここで行う
+// 貸出できない場合は http-errors の例外 (status と message) を投げる
+// 監査ログ (actorId: 操作したユーザー) も同じトランザクションで記録する
+
+type CheckoutOptions = {
+  userId: string
+  isbn: bigint
+  barcode?: string
+  staffId?: string
+  actorId: string
+}
+
+export async function checkoutBook({userId, isbn, barcode, staffId, actorId}: CheckoutOptions) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // 確認から貸出の記録までを1つのトランザクションで行い、同時に借りられても条件を破らないようにする
+      // 利用者の行をロックして冊数上限・延滞料の確認を、書籍の所蔵と予約の行をロックして空き・取り置きの確認を直列にする
+      // ロックは必ず 利用者 → 所蔵 → 予約 の順に取る (デッドロックを避けるため)
+      await tx.$queryRaw`SELECT id FROM \`user\` WHERE id = ${userId} FOR UPDATE`
+      await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${isbn} FOR UPDATE`
+      await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+      // 未払いの延滞料が多すぎる場合は貸出不可 (403 check)
+      const fineBalance = await getFineBalance(userId, tx)
+      if (fineBalance > FINE_BLOCK_THRESHOLD) {
+        throw createError(403, `未払いの延滞料(${fineBalance}円)があるため貸出できません`)
+      }
+
+      // 同時に借りられる冊数の上限チェック (403 check)
+      const policy = await getLoanPolicy(userId, tx)
+      const loanCount = await tx.rental_log.count({
+        where: {
+          user_id: userId,
+          returned_date: null
+        }
+      })
+      if (loanCount >= policy.max_loans) {
+        throw createError(403, `貸出上限(${policy.max_loans}冊)に達しています`)
+      }
+
+      // 1. 書籍が存在するか確認 (404 check)
+      const book = await tx.book.findUnique({where: {isbn}})
+      if (!book || book.isDeleted) {
+        throw createError(404, '書籍が存在しません')
+      }
+
+      // 2. 貸出可能な所蔵があるか確認 (409 check)
+      const freeCopies = await findFreeCopies(isbn, tx)
+      if (freeCopies.length === 0) {
+        throw createError(409, '既に貸出中です')
+      }
+
+      // 3. 他の予約者のために取り置き中か確認 (409 check)
+      // 本人の取り置きがあれば借りられる。なければ他人の取り置き分を除いて空きが必要
+      const holds = await findActiveHolds(isbn, tx)
+      const ownHold = holds.find(hold => hold.user_id === userId)
+      if (!ownHold && freeCopies.length <= holds.length) {
+        throw createError(409, '予約者のため取り置き中です')
+      }
+
+      // 貸し出す所蔵 (バーコード指定があればそれ)
+      const copy = barcode
+        ? freeCopies.find(c => c.barcode === barcode)
+        : freeCopies[0]
+      if (!copy) {
+        throw createError(409, '指定の所蔵は貸出できません')
+      }
+
+      // 4. 貸出処理を実行
+      const now = new Date()
+      const rental = await tx.rental_log.create({
+        data: {
+          book_isbn: isbn,
+          copy_id: copy.id,
+          open_copy_id: copy.id,
+          user_id: userId,
+          checkout_date: now,
+          due_date: dueDateFrom(now, policy),
+          returned_date: null, // 登録時はNULLで
+          checkout_staff_id: staffId ?? null
+        }
+      })
+      // 本人の予約は貸出によって完了扱いにする
+      await tx.reservation.updateMany({
+        where: {
+          book_isbn: isbn,
+          user_id: userId,
+          status: {in: ['waiting', 'ready']}
+        },
+        data: {status: 'fulfilled'}
+      })
+      await recordAudit({actorId, action: 'checkout', entity: 'rental_log', entityId: rental.id, after: rental}, tx)
+      return {rental, copy, book}
+    })
+  } catch (err) {
+    // ロックを取らない経路で同じ所蔵が貸し出されていた場合も、open_copy_id の一意制約で 409 にする
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw createError(409, '既に貸出中です')
+    }
+    throw err
+  }
+}
+
+type ReturnOptions = {
+  staffId?: string
+  forced?: boolean
+  actorId: string
+}
+
+export async function returnRental(rentalId: string, {staffId, forced, actorId}: ReturnOptions) {
+  return prisma.$transaction(async (tx) => {
+    const rental = await tx.rental_log.findUnique({where: {id: rentalId}})
+    if (!rental) {
+      throw createError(404, '存在しない貸出記録です')
+    }
+    if (rental.returned_date) {
+      throw createError(409, '返却済みの貸出です')
+    }
+
+    // 1. 返却処理 (未返却の場合だけ更新する。同時に返却された場合は 409)
+    const {count} = await tx.rental_log.updateMany({
+      where: {id: rental.id, returned_date: null},
+      data: {
+        returned_date: new Date(),
+        open_copy_id: null,
+        return_staff_id: staffId ?? null,
+        force_returned: forced ?? false
+      }
+    })
+    if (count === 0) {
+      throw createError(409, '返却済みの貸出です')
+    }
+    const updated = await tx.rental_log.findUniqueOrThrow({where: {id: rental.id}})
+
+    // 2. 延滞していれば延滞料を記録
+    const fine = await chargeLateFee(updated, tx)
+
+    // 3. 予約待ちがいれば先頭の人に取り置く
+    await promoteNextReservation(rental.book_isbn, tx)
+
+    await recordAudit({
+      actorId, action: forced ? 'force_return' : 'return', entity: 'rental_log', entityId: rental.id,
+      before: rental, after: updated
+    }, tx)
+    return {rental: updated, fine: fine ? fine.amount : 0}
+  })
+}
+
+// 貸出を延長する (現在の返却期限からポリシーの貸出日数分延ばす)
+// reserveBook と同じく 所蔵 → 予約 の順に行をロックし、確認の後に予約が入らないようにする
+export async function renewRental(rentalId: string, actorId: string) {
+  return prisma.$transaction(async (tx) => {
+    const rental = await tx.rental_log.findUnique({where: {id: rentalId}})
+    if (!rental) {
+      throw createError(404, '存在しない貸出記録です')
+    }
+    await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${rental.book_isbn} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${rental.book_isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+    if (rental.returned_date) {
+      throw createError(409, '返却済みの貸出です')
+    }
+    if (isOverdue(rental)) {
+      throw createError(409, '返却期限を過ぎているため延長できません')
+    }
+    const policy = await getLoanPolicy(rental.user_id, tx)
+    if (rental.renewal_count >= policy.max_renewals) {
+      throw createError(403, `延長は${policy.max_renewals}回までです`)
+    }
+    // 予約待ちの人がいる場合は延長させない
+    const waiting = await tx.reservation.count({where: {book_isbn: rental.book_isbn, status: 'waiting'}})
+    if (waiting > 0) {
+      throw createError(409, '予約者がいるため延長できません')
+    }
+
+    // 読んだときの回数のままで未返却の場合だけ更新する (同時に延長・返却された場合は 409)
+    const {count} = await tx.rental_log.updateMany({
+      where: {
+        id: rental.id,
+        returned_date: null,
+        renewal_count: {equals: rental.renewal_count, lt: policy.max_renewals}
+      },
+      data: {
+        due_date: dueDateFrom(rental.due_date, policy),
+        renewal_count: {increment: 1}
+      }
+    })
+    if (count === 0) {
+      throw createError(409, '同時に延長または返却されました。もう一度お試しください')
+    }
+    const updated = await tx.rental_log.findUniqueOrThrow({where: {id: rental.id}})
+    await recordAudit({actorId, action: 'renew', entity: 'rental_log', entityId: rental.id, before: rental, after: updated}, tx)
+    return updated
+  })
+}
+
+type AddCopyOptions = {
+  isbn: bigint
+  barcode?: string
+  actorId: string
+}
+
+// 所蔵を追加し、予約待ちがいれば追加した所蔵で取り置く
+export async function addCopy({isbn, barcode, actorId}: AddCopyOptions) {
+  return prisma.$transaction(async (tx) => {
+    // checkoutBook と同じく 所蔵 → 予約 の順にロックする
+    await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${isbn} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+    const book = await tx.book.findUnique({where: {isbn}})
+    if (!book || book.isDeleted) {
+      throw createError(404, '書籍が存在しません')
+    }
+    // バーコード未指定なら自動採番
+    const code = barcode || await nextBarcode(isbn, tx)
+    if (await tx.book_copy.findUnique({where: {barcode: code}})) {
+      throw createError(409, '登録済みバーコード')
+    }
+
+    const copy = await tx.book_copy.create({data: {book_isbn: isbn, barcode: code}})
+    await promoteNextReservation(isbn, tx)
+    await recordAudit({actorId, action: 'create', entity: 'book_copy', entityId: copy.id, after: copy}, tx)
+    return copy
+  })
+}
+
+// 所蔵を除籍する (貸出中なら 409)。この所蔵で取り置いていた予約は待ちに戻す
+export async function retireCopy(copyId: string, actorId: string) {
+  return prisma.$transaction(async (tx) => {
+    const found = await tx.book_copy.findUnique({where: {id: copyId}})
+    if (!found) {
+      throw createError(404, '所蔵が存在しません')
+    }
+    // checkoutBook と同じく 所蔵 → 予約 の順にロックしてから確認する
+    await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${found.book_isbn} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${found.book_isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+    const before = await tx.book_copy.findUniqueOrThrow({where: {id: copyId}})
+    if (before.isRetired) {
+      throw createError(409, '除籍済みの所蔵です')
+    }
+    const rental = await tx.rental_log.findFirst({where: {copy_id: copyId, returned_date: null}})
+    if (rental) {
+      throw createError(409, '貸出中の所蔵は除籍できません')
+    }
+
+    const retired = await tx.book_copy.update({where: {id: copyId}, data: {isRetired: true}})
+    await demoteExcessHolds(before.book_isbn, tx)
+    await recordAudit({actorId, action: 'retire', entity: 'book_copy', entityId: copyId, before, after: retired}, tx)
+    return retired
+  })
+}
@@ -0,0 +1,159 @@
+import {setTimeout as sleep} from 'node:timers/promises'
+import prisma from './db.js'
+import redis from './redis.js'
+import {recordAudit} from './audit.js'
+
+// ログインの総当たり対策
+// 失敗回数を IP アドレスごと・アカウント (メールアドレス) ごとに Redis で数え、
+// 回数に応じて応答を遅らせ、上限を超えたら一定時間ロックする
+// 試行はパスワードを照合する前に失敗として数え、成功したら取り消す
+// ロックしたことは login_lockout に記録する (ロック中かどうかは Redis のキーで判定する)
+// 存在しないメールアドレスも同じように数えるので、ロックの有無から登録状況はわからない
+
+// 失敗回数を数える期間 (秒)
+const FAILURE_WINDOW = 15 * 60
+// ロックする時間 (秒)
+export const LOCK_SECONDS = 15 * 60
+// この回数失敗したらロックする
+const ACCOUNT_LOCK_THRESHOLD = 10
+const IP_LOCK_THRESHOLD = 50
+// この回数から応答を遅らせ始め、1回ごとに倍にする (上限あり)
+const DELAY_AFTER = 3
+const DELAY_BASE_MS = 500
+const DELAY_MAX_MS = 8000
+
+type LockScope = 'account' | 'ip'
+
+const failureKey = (scope: LockScope, target: string) => `login:fail:${scope}:${target}`
+const lockKey = (scope: LockScope, target: string) => `login:lock:${scope}:${target}`
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+async function failureCount(scope: LockScope, target: string) {
+  return Number(await redis.get(failureKey(scope, target)) ?? 0)
+}
+
+// 回数を1つ増やして返す (増やすのと期限の設定を1回の MULTI で行う。期限は最初の1回から数える)
+async function countUp(key: string, seconds: number) {
+  const [count] = await redis.multi().incr(key).expire(key, seconds, 'NX').exec()
+  return Number(count)
+}
+
+// パスワードを照合する前に呼び、この試行を先に失敗として数える
+// ロック中か、数えた結果が上限を超えていれば true (照合しない)。そうでなければ回数に応じて待ってから false を返す
+// 照合の後で数えると、同時に大量に送られたときに上限を超えて照合できてしまうため
+export async function beginLoginAttempt(email: string, ip: string) {
+  const account = normalizeEmail(email)
+  const [accountLocked, ipLocked] = await Promise.all([
+    redis.exists(lockKey('account', account)),
+    redis.exists(lockKey('ip', ip))
+  ])
+  if (accountLocked || ipLocked) {
+    return true
+  }
+
+  const [accountAttempts, ipAttempts] = await Promise.all([
+    countUp(failureKey('account', account), FAILURE_WINDOW),
+    countUp(failureKey('ip', ip), FAILURE_WINDOW)
+  ])
+  if (accountAttempts > ACCOUNT_LOCK_THRESHOLD || ipAttempts > IP_LOCK_THRESHOLD) {
+    return true
+  }
+
+  // 今回の試行を除いたこれまでの失敗回数で待つ時間を決める
+  const failures = Math.max(accountAttempts, ipAttempts) - 1
+  if (failures >= DELAY_AFTER) {
+    await sleep(Math.min(DELAY_BASE_MS * 2 ** (failures - DELAY_AFTER), DELAY_MAX_MS))
+  }
+  return false
+}
+
+async function lockIfExceeded(scope: LockScope, target: string, threshold: number, ip: string) {
+  const failures = await failureCount(scope, target)
+  if (failures < threshold) {
+    return
+  }
+
+  // NX: 既にロック中なら延長も記録もしない
+  const locked = await redis.set(lockKey(scope, target), String(failures), {EX: LOCK_SECONDS, NX: true})
+  if (locked === null) {
+    return
+  }
+  await redis.del(failureKey(scope, target))
+  const user = scope === 'account'
+    ? await prisma.user.findUnique({where: {email: target}, select: {id: true}})
+    : null
+  await prisma.login_lockout.create({
+    data: {
+      scope,
+      target,
+      user_id: user?.id ?? null,
+      ip,
+      failures,
+      lockedUntil: new Date(Date.now() + LOCK_SECONDS * 1000)
+    }
+  })
+}
+
+// 照合に失敗したとき (回数は beginLoginAttempt で数えてあるので、上限に達していればロックする)
+export async function recordLoginFailure(email: string, ip: string) {
+  await lockIfExceeded('account', normalizeEmail(email), ACCOUNT_LOCK_THRESHOLD, ip)
+  await lockIfExceeded('ip', ip, IP_LOCK_THRESHOLD, ip)
+}
+
+// 成功したらアカウントの失敗回数は消す
+// IP の回数は他のアカウントへの試行もあるので、今回の1回分だけ戻す
+export async function recordLoginSuccess(email: string, ip: string) {
+  await redis.del(failureKey('account', normalizeEmail(email)))
+  // 期限切れの直後だと DECR が -1 のキーを作るので、0以下になったら消す
+  if (await redis.decr(failureKey('ip', ip)) <= 0) {
+    await redis.del(failureKey('ip', ip))
+  }
+}
+
+// アカウントのロックが解けるまでの秒数 (ロックされていなければ null)
+export async function accountLockSeconds(email: string) {
+  const ttl = await redis.ttl(lockKey('account', normalizeEmail(email)))
+  return ttl > 0 ? ttl : null
+}
+
+// 管理者によるロック解除 (失敗回数も消す)
+// 解除の記録と監査ログは同じトランザクションで書き込む
+export async function unlockAccount(user: {id: string, email: string}, staffId: string) {
+  const account = normalizeEmail(user.email)
+  await redis.del([lockKey('account', account), failureKey('account', account)])
+  return prisma.$transaction(async (tx) => {
+    const {count} = await tx.login_lockout.updateMany({
+      where: {scope: 'account', target: account, unlockedAt: null, lockedUntil: {gt: new Date()}},
+      data: {unlockedAt: new Date(), unlocked_by_id: staffId}
+    })
+    await recordAudit({actorId: staffId, action: 'unlock', entity: 'user', entityId: user.id, after: {unlocked_lockouts: count}}, tx)
+    return count
+  })
+}
+
+// ログイン以外の連続送信の対策 (パスワード再設定メールなど)
+// seconds 秒の間に limit 回を超えたら false を返す。期間は最初の1回から数える
+export async function takeRateLimit(name: string, target: string, limit: number, seconds: number) {
+  return await countUp(`ratelimit:${name}:${target}`, seconds) <= limit
+}
+
+export async function listLockouts(userId: string, take = 20) {
+  const lockouts = await prisma.login_lockout.findMany({
+    where: {user_id: userId},
+    orderBy: {createdAt: 'desc'},
+    take,
+    include: {unlocked_by: {select: {name: true}}}
+  })
+  return lockouts.map(l => ({
+    id: l.id,
+    ip: l.ip,
+    failures: l.failures,
+    locked_at: l.createdAt,
+    locked_until: l.lockedUntil,
+    unlocked_at: l.unlockedAt,
+    unlocked_by: l.unlocked_by?.name ?? null
+  }))
+}
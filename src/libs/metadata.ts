@@ -0,0 +1,90 @@
+import createError from 'http-errors'
+
+// 書籍の付加情報 (あらすじ・ページ数・言語・主題/タグ)
+
+export const TAG_MAX_LENGTH = 64
+export const TAGS_PER_BOOK = 20
+export const DESCRIPTION_MAX_LENGTH = 4000
+
+export type BookMetadata = {
+  description: string | null
+  page_count: number | null
+  language: string | null
+}
+
+// 空欄は null (未設定) として扱う
+export function parseBookMetadata(body: any): BookMetadata {
+  const description = typeof body.description === 'string' ? body.description.trim() : ''
+  if (description.length > DESCRIPTION_MAX_LENGTH) {
+    throw createError(400, `あらすじは${DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
+  }
+
+  let pageCount: number | null = null
+  if (body.page_count !== undefined && body.page_count !== null && String(body.page_count).trim() !== '') {
+    pageCount = Number(body.page_count)
+    if (!Number.isInteger(pageCount) || pageCount < 1 || pageCount > 100000) {
+      throw createError(400, 'ページ数が不正です')
+    }
+  }
+
+  // 言語は "ja", "en", "zh-Hant" のような言語タグで保存する
+  const language = typeof body.language === 'string' ? body.language.trim() : ''
+  if (language && !/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(language)) {
+    throw createError(400, `言語コードが不正です (${language})`)
+  }
+
+  return {
+    description: description || null,
+    page_count: pageCount,
+    language: language || null
+  }
+}
+
+// タグはカンマ区切りの文字列 ("小説, SF") か配列で受け取る
+export function parseTags(input: unknown): string[] {
+  const parts = Array.isArray(input)
+    ? input.map(String)
+    : typeof input === 'string' ? input.split(/[,、，]/) : []
+
+  const tags: string[] = []
+  for (const part of parts) {
+    const name = part.normalize('NFKC').trim()
+    if (!name || tags.includes(name)) {
+      continue
+    }
+    if (name.length > TAG_MAX_LENGTH) {
+      throw createError(400, `タグは${TAG_MAX_LENGTH}文字以内で入力してください`)
+    }
+    tags.push(name)
+  }
+  if (tags.length > TAGS_PER_BOOK) {
+    throw createError(400, `タグは${TAGS_PER_BOOK}個までです`)
+  }
+  return tags
+}
+
+// book_tag に保存する行 (タグがなければ作る)
+export function toTagRows(tags: string[]) {
+  return tags.map(name => ({
+    tag: {connectOrCreate: {where: {name}, create: {name}}}
+  }))
+}
+
+// 一覧・詳細で返す形にする (名前順)
+export function formatTags(rows: {tag: {name: string}}[]) {
+  return rows.map(row => row.tag.name).sort((a, b) => a.localeCompare(b, 'ja'))
+}
+
+// 言語タグの表示名 (例: ja → 日本語)。わからなければそのまま返す
+const languageNames = new Intl.DisplayNames(['ja'], {type: 'language', fallback: 'code'})
+
+export function languageLabel(language: string | null) {
+  if (!language) {
+    return null
+  }
+  try {
+    return languageNames.of(language) ?? language
+  } catch {
+    return language
+  }
+}
@@ -0,0 +1,351 @@
+import createError from 'http-errors'
+import {NextFunction, Request, Response} from 'express'
+import {body, param, query, ValidationChain, validationResult} from 'express-validator'
+import type {TokenScope} from './token.js'
+
+// JSON API の仕様 (OpenAPI) と入力チェック
+// ルートごとに apiOperation() で仕様を書くと、その仕様で params / query / body をチェックするミドルウェアになり、
+// 同じ仕様が /api/openapi.json にも載る。仕様と実装がずれないように、チェックは必ず仕様から組み立てる
+
+// 仕様に書ける JSON Schema (使う範囲だけ)
+export type JsonSchema = {
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object'
+  anyOf?: JsonSchema[]
+  description?: string
+  format?: 'uuid' | 'email' | 'date' | 'date-time' | 'binary' | 'password'
+  enum?: string[]
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  properties?: {[name: string]: JsonSchema}
+  required?: string[]
+  default?: unknown
+  example?: unknown
+}
+
+export type ApiOperation = {
+  operationId: string
+  method: 'get' | 'post' | 'put' | 'delete'
+  // OpenAPI 形式のパス (例: /book/detail/{isbn})
+  path: string
+  summary: string
+  tag: string
+  // ログインが必要か (既定: 必要)。不要でもログインしていれば本人として扱う
+  login?: boolean
+  // API トークンで使う場合に必要なスコープ (なければトークンでは使えない)
+  scope?: TokenScope
+  params?: {[name: string]: JsonSchema}
+  query?: {[name: string]: JsonSchema}
+  body?: JsonSchema
+  bodyType?: 'json' | 'multipart'
+  // 成功時のレスポンス (既定: JSON)
+  response?: {description: string, type?: string, schema?: JsonSchema}
+}
+
+// 入力エラーの1件分 (レスポンスの errors に入る)
+export type FieldError = {
+  location: string
+  field: string
+  message: string
+}
+
+// よく使う型
+export const UUID: JsonSchema = {type: 'string', format: 'uuid'}
+export const ISBN: JsonSchema = {type: 'string', pattern: '^[0-9Xx-]{10,17}$', description: 'ISBN-10 / ISBN-13 (ハイフン可)', example: '978-4-00-310101-8'}
+export const EMAIL: JsonSchema = {type: 'string', format: 'email', maxLength: 254}
+export const PAGE: JsonSchema = {type: 'integer', minimum: 1, description: 'ページ番号'}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const operations: ApiOperation[] = []
+
+// 範囲の表示 (例: 1〜12, 1以上, 64文字以下)
+function rangeText(min: number | undefined, max: number | undefined, unit = '') {
+  if (min !== undefined && max !== undefined) {
+    return `${min}〜${max}${unit}`
+  }
+  return min !== undefined ? `${min}${unit}以上` : `${max}${unit}以下`
+}
+
+function isMissing(value: unknown) {
+  return value === undefined || value === null || value === ''
+}
+
+// 値が仕様に合っているか調べ、合っていなければエラーメッセージを返す
+export function checkValue(schema: JsonSchema, value: unknown): string | null {
+  if (schema.anyOf) {
+    const messages = schema.anyOf.map(s => checkValue(s, value))
+    if (messages.includes(null)) {
+      return null
+    }
+    // 値の種類 (配列かどうか) が合っている方のエラーを返す
+    const index = schema.anyOf.findIndex(s => (s.type === 'array') === Array.isArray(value))
+    return messages[Math.max(index, 0)]
+  }
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      const text = String(value).trim()
+      const valid = schema.type === 'integer' ? /^-?\d+$/.test(text) : text !== '' && !isNaN(Number(text))
+      if (typeof value === 'object' || !valid) {
+        return schema.type === 'integer' ? '整数で指定してください' : '数値で指定してください'
+      }
+      const n = Number(text)
+      if ((schema.minimum !== undefined && n < schema.minimum) || (schema.maximum !== undefined && n > schema.maximum)) {
+        return `${rangeText(schema.minimum, schema.maximum)}の範囲で指定してください`
+      }
+      return null
+    }
+    case 'boolean':
+      return [true, false, 'true', 'false', '1', '0', 'on'].includes(value as any) ? null : 'true / false で指定してください'
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return '配列で指定してください'
+      }
+      if ((schema.minItems !== undefined && value.length < schema.minItems) || (schema.maxItems !== undefined && value.length > schema.maxItems)) {
+        return `要素数は${rangeText(schema.minItems, schema.maxItems, '個')}にしてください`
+      }
+      for (const [i, item] of value.entries()) {
+        const message = schema.items ? checkValue(schema.items, item) : null
+        if (message) {
+          return `[${i}] ${message}`
+        }
+      }
+      return null
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'オブジェクトで指定してください'
+      }
+      for (const [name, propSchema] of Object.entries(schema.properties ?? {})) {
+        const propValue = (value as any)[name]
+        if (isMissing(propValue)) {
+          if (schema.required?.includes(name)) {
+            return `${name}: 必須です`
+          }
+          continue
+        }
+        const message = checkValue(propSchema, propValue)
+        if (message) {
+          return `${name}: ${message}`
+        }
+      }
+      return null
+    }
+    default: {
+      if (typeof value !== 'string') {
+        return '文字列で指定してください'
+      }
+      if ((schema.minLength !== undefined && value.length < schema.minLength) || (schema.maxLength !== undefined && value.length > schema.maxLength)) {
+        return `${rangeText(schema.minLength, schema.maxLength, '文字')}で指定してください`
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `${schema.enum.join(' / ')} のいずれかを指定してください`
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return '形式が正しくありません'
+      }
+      if (schema.format === 'uuid' && !UUID_PATTERN.test(value)) {
+        return 'ID の形式が正しくありません'
+      }
+      if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+        return 'メールアドレスの形式が正しくありません'
+      }
+      if (schema.format === 'date' && !DATE_PATTERN.test(value)) {
+        return '日付は YYYY-MM-DD で指定してください'
+      }
+      return null
+    }
+  }
+}
+
+// チェックを通った値を仕様の型にそろえる (フォームの "12" → 12, "true" → true)
+// Express 5 の req.query は読むたびに作り直されるため、query の値はそろえられない (文字列のまま)
+function coerceValue(schema: JsonSchema, value: unknown) {
+  if (isMissing(value)) {
+    return value
+  }
+  if (schema.type === 'integer' || schema.type === 'number') {
+    return Number(value)
+  }
+  if (schema.type === 'boolean') {
+    return value === true || value === 'true' || value === '1' || value === 'on'
+  }
+  return value
+}
+
+function fieldChain(location: 'params' | 'query' | 'body', name: string, schema: JsonSchema, required: boolean): ValidationChain {
+  const chain = location === 'params' ? param(name) : location === 'query' ? query(name) : body(name)
+  return chain
+    .custom((value) => {
+      if (isMissing(value)) {
+        if (required) throw new Error('必須です')
+        return true
+      }
+      const message = checkValue(schema, value)
+      if (message) throw new Error(message)
+      return true
+    })
+    .bail()
+    .customSanitizer(value => coerceValue(schema, value))
+}
+
+// 仕様を登録し、入力チェックのミドルウェアを返す
+// エラーは 400 で {message, errors: [{location, field, message}]} を返す (画面からの送信ならエラー画面)
+export function apiOperation(operation: ApiOperation) {
+  operations.push(operation)
+
+  const chains: ValidationChain[] = []
+  for (const [name, schema] of Object.entries(operation.params ?? {})) {
+    chains.push(fieldChain('params', name, schema, true))
+  }
+  for (const [name, schema] of Object.entries(operation.query ?? {})) {
+    chains.push(fieldChain('query', name, schema, false))
+  }
+  for (const [name, schema] of Object.entries(operation.body?.properties ?? {})) {
+    // ファイル (multipart) は multer が req.file に入れるので、ここではチェックしない
+    if (schema.format === 'binary') {
+      continue
+    }
+    chains.push(fieldChain('body', name, schema, operation.body?.required?.includes(name) ?? false))
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      for (const chain of chains) {
+        await chain.run(req)
+      }
+      const result = validationResult(req)
+      if (result.isEmpty()) {
+        return next()
+      }
+
+      const errors: FieldError[] = result.array({onlyFirstError: true}).map((e: any) => ({
+        location: e.location,
+        field: e.path,
+        message: e.msg
+      }))
+      const message = '入力内容に誤りがあります'
+      res.format({
+        html: () => next(createError(400, `${message} (${errors.map(e => `${e.field}: ${e.message}`).join(', ')})`)),
+        json: () => res.status(400).json({message, errors})
+      })
+    } catch (e) {
+      next(e)
+    }
+  }
+}
+
+// OpenAPI の security (セッション Cookie と、スコープ付きのトークン)
+function securityFor(operation: ApiOperation) {
+  const security: {[name: string]: string[]}[] = [{cookieAuth: []}]
+  if (operation.scope) {
+    security.push({bearerAuth: [operation.scope]}, {apiKeyAuth: [operation.scope]})
+  }
+  // ログイン不要なら認証なしも許す
+  if (operation.login === false) {
+    security.unshift({})
+  }
+  return security
+}
+
+const ERROR_RESPONSES = {
+  '400': {$ref: '#/components/responses/BadRequest'},
+  '401': {$ref: '#/components/responses/Unauthorized'},
+  '403': {$ref: '#/components/responses/Forbidden'},
+  '404': {$ref: '#/components/responses/NotFound'},
+  '409': {$ref: '#/components/responses/Conflict'}
+}
+
+function errorResponse(description: string) {
+  return {description, content: {'application/json': {schema: {$ref: '#/components/schemas/Error'}}}}
+}
+
+// 登録された仕様から OpenAPI ドキュメントを作る
+export function buildOpenApiDocument() {
+  const paths: {[path: string]: any} = {}
+  for (const operation of operations) {
+    const parameters = [
+      ...Object.entries(operation.params ?? {}).map(([name, schema]) => ({name, in: 'path', required: true, schema})),
+      ...Object.entries(operation.query ?? {}).map(([name, schema]) => ({name, in: 'query', required: false, schema}))
+    ]
+    const response = operation.response ?? {description: '成功'}
+
+    paths[operation.path] ??= {}
+    paths[operation.path][operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: [operation.tag],
+      security: securityFor(operation),
+      ...(parameters.length > 0 ? {parameters} : {}),
+      ...(operation.body ? {
+        requestBody: {
+          required: true,
+          content: {
+            [operation.bodyType === 'multipart' ? 'multipart/form-data' : 'application/json']: {schema: operation.body}
+          }
+        }
+      } : {}),
+      responses: {
+        '200': {
+          description: response.description,
+          content: {[response.type ?? 'application/json']: {schema: response.schema ?? {type: 'object'}}}
+        },
+        ...ERROR_RESPONSES
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: '図書館システム API',
+      version: '1.0.0',
+      description: 'JSON で使う場合は Accept: application/json を付けてください。エラーは {message, errors} で返します。'
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        cookieAuth: {type: 'apiKey', in: 'cookie', name: 'mb_sid', description: 'POST /users/login で発行されるセッション'},
+        bearerAuth: {type: 'http', scheme: 'bearer', description: '/users/tokens で発行した API トークン'},
+        apiKeyAuth: {type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'API トークン (Bearer と同じもの)'}
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['message'],
+          properties: {
+            message: {type: 'string'},
+            errors: {
+              type: 'array',
+              description: '入力エラーの場合のみ。項目ごとのエラー',
+              items: {
+                type: 'object',
+                properties: {
+                  location: {type: 'string', enum: ['params', 'query', 'body']},
+                  field: {type: 'string'},
+                  message: {type: 'string'}
+                }
+              }
+            }
+          }
+        }
+      },
+      responses: {
+        BadRequest: errorResponse('入力内容の誤り'),
+        Unauthorized: errorResponse('未ログイン・トークンが無効'),
+        Forbidden: errorResponse('権限がない'),
+        NotFound: errorResponse('対象が存在しない'),
+        Conflict: errorResponse('現在の状態では実行できない')
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import {NextFunction, Request, Response} from 'express'
+import prisma from './db.js'
+
+export type Role = 'admin' | 'librarian' | 'cataloguer'
+export type Permission = 'catalog:manage' | 'loan:manage' | 'user:manage'
+
+export const ROLES: Role[] = ['admin', 'librarian', 'cataloguer']
+
+// 役割ごとに許可される操作
+// librarian: 他の利用者の貸出・返却を扱える
+// cataloguer: 書籍・著者・出版社を編集できる
+// admin: すべての操作 (ユーザーと役割の管理を含む)
+const ROLE_PERMISSIONS: { [R in Role]: Permission[] } = {
+  admin: ['catalog:manage', 'loan:manage', 'user:manage'],
+  librarian: ['loan:manage'],
+  cataloguer: ['catalog:manage']
+}
+
+// ユーザーの役割一覧 (admin は user.is_admin から判定する)
+export async function getUserRoles(userId: string): Promise<Role[]> {
+  const user = await prisma.user.findUnique({where: {id: userId}})
+  if (!user || user.isDeleted) {
+    return []
+  }
+  const rows = await prisma.user_role.findMany({where: {user_id: userId}})
+  const roles: Role[] = rows.map(row => row.role)
+  if (user.is_admin === true || (user.is_admin as any) === 1) {
+    roles.unshift('admin')
+  }
+  return roles
+}
+
+export function rolesHavePermission(roles: Role[], permission: Permission) {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission))
+}
+
+export async function hasPermission(userId: string, permission: Permission) {
+  return rolesHavePermission(await getUserRoles(userId), permission)
+}
+
+// 指定の操作が許可されたユーザーだけを通すミドルウェア
+// 許可がなければ JSON なら 403、画面ならトップへリダイレクト
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // 未ログインチェック
+    if (!req.user || !req.user.id) {
+      if (req.accepts('json') && !req.accepts('html')) {
+        return res.status(403).json({message: 'ログインしていません'})
+      }
+      return res.redirect('/')
+    }
+
+    try {
+      const roles = await getUserRoles(req.user!.id)
+      if (!rolesHavePermission(roles, permission)) {
+        if (req.accepts('json') && !req.accepts('html')) {
+          return res.status(403).json({message: '権限がありません'})
+        }
+        return res.redirect('/')
+      }
+      // 画面側でメニューの出し分けに使う
+      res.locals.roles = roles
+      next()
+    } catch (e) {
+      console.error(e)
+      res.redirect('/')
+    }
+  }
+}
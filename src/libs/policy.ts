@@ -0,0 +1,35 @@
+import prisma, {DbClient} from './db.js'
+
+export type LoanPolicy = {
+  max_loans: number
+  loan_days: number
+  max_renewals: number
+}
+
+// 既定のポリシーが登録されていない場合に使う値
+export const FALLBACK_POLICY: LoanPolicy = {
+  max_loans: 5,
+  loan_days: 7,
+  max_renewals: 2
+}
+
+// ユーザーに適用される貸出ポリシー
+// 個別に割り当てられていればそれを、なければ既定のポリシーを使う
+export async function getLoanPolicy(userId: string, db: DbClient = prisma): Promise<LoanPolicy> {
+  const user = await db.user.findUnique({where: {id: userId}})
+  if (user && user.loan_policy_id) {
+    const policy = await db.loan_policy.findUnique({where: {id: user.loan_policy_id}})
+    if (policy) {
+      return policy
+    }
+  }
+  const defaultPolicy = await db.loan_policy.findFirst({where: {isDefault: true}})
+  return defaultPolicy || FALLBACK_POLICY
+}
+
+// 返却期限 (基準日から貸出日数後)
+export function dueDateFrom(base: Date, policy: LoanPolicy) {
+  const dueDate = new Date(base)
+  dueDate.setDate(dueDate.getDate() + policy.loan_days)
+  return dueDate
+}
@@ -0,0 +1,8 @@
+import {createClient} from 'redis'
+
+// セッションとログイン試行回数の記録で共有する Redis 接続
+const redis = await createClient({url: process.env.REDIS_URL})
+  .on('error', (err: Error) => console.error(err))
+  .connect()
+
+export default redis
@@ -0,0 +1,152 @@
+import createError from 'http-errors'
+import prisma, {DbClient} from './db.js'
+import {findFreeCopies} from './copy.js'
+import {recordAudit} from './audit.js'
+
+// 取り置き期間 (日数): 返却後、予約者がこの期間内に借りに来なければ次の人へ回す
+export const PICKUP_DAYS = 3
+
+// 期限切れの取り置きを expired にして、次の予約者へ回す
+export async function expireStaleHolds(isbn: bigint, db: DbClient = prisma) {
+  const expired = await db.reservation.updateMany({
+    where: {
+      book_isbn: isbn,
+      status: 'ready',
+      expires_at: {lt: new Date()}
+    },
+    data: {status: 'expired'}
+  })
+  if (expired.count > 0) {
+    await promoteNextReservation(isbn, db)
+  }
+}
+
+// 現在有効な取り置きの一覧を取得する (期限切れのものは先に処理する)
+export async function findActiveHolds(isbn: bigint, db: DbClient = prisma) {
+  await expireStaleHolds(isbn, db)
+  return db.reservation.findMany({
+    where: {book_isbn: isbn, status: 'ready'}
+  })
+}
+
+// 空いている所蔵の数だけ、待ち行列の先頭から取り置き状態にする
+export async function promoteNextReservation(isbn: bigint, db: DbClient = prisma) {
+  const [freeCopies, heldCount] = await Promise.all([
+    findFreeCopies(isbn, db),
+    db.reservation.count({where: {book_isbn: isbn, status: 'ready'}})
+  ])
+  const slots = freeCopies.length - heldCount
+  if (slots <= 0) {
+    return []
+  }
+
+  const next = await db.reservation.findMany({
+    where: {book_isbn: isbn, status: 'waiting'},
+    orderBy: {createdAt: 'asc'},
+    take: slots
+  })
+
+  const now = new Date()
+  const expiresAt = new Date(now)
+  expiresAt.setDate(expiresAt.getDate() + PICKUP_DAYS)
+
+  return Promise.all(next.map(reservation => db.reservation.update({
+    where: {id: reservation.id},
+    data: {status: 'ready', ready_at: now, expires_at: expiresAt}
+  })))
+}
+
+// 除籍で空いている所蔵より取り置きが多くなったら、最後に取り置いたものから待ちに戻す
+// 待ち行列の順番は予約日時で決まるので、戻した予約は元の順番に並ぶ
+export async function demoteExcessHolds(isbn: bigint, db: DbClient = prisma) {
+  const [freeCopies, holds] = await Promise.all([
+    findFreeCopies(isbn, db),
+    db.reservation.findMany({
+      where: {book_isbn: isbn, status: 'ready'},
+      orderBy: [{ready_at: 'desc'}, {createdAt: 'desc'}]
+    })
+  ])
+  const excess = holds.slice(0, Math.max(holds.length - freeCopies.length, 0))
+  if (excess.length === 0) {
+    return []
+  }
+  await db.reservation.updateMany({
+    where: {id: {in: excess.map(reservation => reservation.id)}},
+    data: {status: 'waiting', ready_at: null, expires_at: null}
+  })
+  return excess
+}
+
+// 予約する (予約できない理由は http-errors の例外で投げる)
+// checkoutBook と同じく 利用者 → 所蔵 → 予約 の順に行をロックしてから確認し、同時に送られても二重に予約しない
+export async function reserveBook(userId: string, isbn: bigint) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM \`user\` WHERE id = ${userId} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${isbn} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+    const book = await tx.book.findUnique({where: {isbn}})
+    if (!book || book.isDeleted) {
+      throw createError(404, '書籍が存在しません')
+    }
+
+    // 貸出可能な所蔵があれば予約不要
+    const [freeCopies, holds] = await Promise.all([
+      findFreeCopies(isbn, tx),
+      findActiveHolds(isbn, tx)
+    ])
+    if (freeCopies.length > holds.length) {
+      throw createError(409, '貸出可能な書籍です。そのまま借りてください')
+    }
+    const rental = await tx.rental_log.findFirst({where: {book_isbn: isbn, user_id: userId, returned_date: null}})
+    if (rental) {
+      throw createError(409, '現在借りている書籍です')
+    }
+    const exists = await tx.reservation.findFirst({
+      where: {book_isbn: isbn, user_id: userId, status: {in: ['waiting', 'ready']}}
+    })
+    if (exists) {
+      throw createError(409, '既に予約済みです')
+    }
+
+    const reservation = await tx.reservation.create({data: {book_isbn: isbn, user_id: userId}})
+    await recordAudit({actorId: userId, action: 'reserve', entity: 'reservation', entityId: reservation.id, after: reservation}, tx)
+    return reservation
+  })
+}
+
+// 予約を取り消す。取り置き中だった場合は同じトランザクションで次の予約者へ回す
+export async function cancelReservation(userId: string, isbn: bigint) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM book_copy WHERE book_isbn = ${isbn} FOR UPDATE`
+    await tx.$queryRaw`SELECT id FROM reservation WHERE book_isbn = ${isbn} AND status IN ('waiting', 'ready') FOR UPDATE`
+
+    const reservation = await tx.reservation.findFirst({
+      where: {book_isbn: isbn, user_id: userId, status: {in: ['waiting', 'ready']}}
+    })
+    if (!reservation) {
+      throw createError(404, '予約が見つかりません')
+    }
+    const cancelled = await tx.reservation.update({
+      where: {id: reservation.id},
+      data: {status: 'cancelled'}
+    })
+    if (reservation.status === 'ready') {
+      await promoteNextReservation(isbn, tx)
+    }
+    await recordAudit({actorId: userId, action: 'cancel', entity: 'reservation', entityId: reservation.id, before: reservation, after: cancelled}, tx)
+    return cancelled
+  })
+}
+
+// 待ち行列での順番 (1始まり) を返す
+export async function queuePosition(reservation: {id: string, book_isbn: bigint, createdAt: Date}) {
+  const ahead = await prisma.reservation.count({
+    where: {
+      book_isbn: reservation.book_isbn,
+      status: 'waiting',
+      createdAt: {lt: reservation.createdAt}
+    }
+  })
+  return ahead + 1
+}
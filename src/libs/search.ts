@@ -0,0 +1,69 @@
+import {Prisma} from 'db'
+import prisma from './db.js'
+
+// 著者名・出版社名の検索 (入力補完用)
+// 名前とは別に正規化した search_key を保存しておき、全角/半角・カタカナ/ひらがな・大文字/小文字・空白の違いを無視して探す
+
+export type NameModel = 'author' | 'publisher'
+
+export const SEARCH_LIMIT_DEFAULT = 20
+export const SEARCH_LIMIT_MAX = 50
+
+// search_key 列の長さ (文字数)。NFKC で名前より長くなることがある (例: ㍻ → 平成) ので、超えた分は切り捨てる
+export const SEARCH_KEY_MAX_LENGTH = 128
+
+// NFKC (全角英数→半角、半角カナ→全角) → 小文字 → カタカナをひらがなに → 空白と中黒を除く
+export function toSearchKey(text: string) {
+  const key = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60))
+    .replace(/[\s・]/g, '')
+  // サロゲートペアの途中で切らないよう、コードポイント単位で数える
+  return Array.from(key).slice(0, SEARCH_KEY_MAX_LENGTH).join('')
+}
+
+type SearchOptions = {
+  limit?: number
+  offset?: number
+}
+
+// author と publisher は同じ列 (id, name, search_key, isDeleted) を持つので、同じ条件で探す
+type NameWhere = Prisma.authorWhereInput & Prisma.publisherWhereInput
+
+function countNames(model: NameModel, where: NameWhere) {
+  return model === 'author' ? prisma.author.count({where}) : prisma.publisher.count({where})
+}
+
+function findNames(model: NameModel, where: NameWhere, skip: number, take: number) {
+  const args = {
+    where,
+    select: {id: true, name: true},
+    orderBy: [{name: 'asc'}, {id: 'asc'}] satisfies Prisma.authorOrderByWithRelationInput[],
+    skip,
+    take
+  }
+  return model === 'author' ? prisma.author.findMany(args) : prisma.publisher.findMany(args)
+}
+
+// 前方一致を先に、その後に部分一致を名前順で返す
+export async function searchNames(model: NameModel, keyword: string, {limit = SEARCH_LIMIT_DEFAULT, offset = 0}: SearchOptions = {}) {
+  const key = toSearchKey(keyword)
+  const prefixWhere: NameWhere = {isDeleted: false, search_key: {startsWith: key}}
+  const otherWhere: NameWhere = {isDeleted: false, search_key: {contains: key}, NOT: {search_key: {startsWith: key}}}
+
+  const [prefixTotal, otherTotal] = await Promise.all([
+    countNames(model, prefixWhere),
+    key ? countNames(model, otherWhere) : 0
+  ])
+
+  const items: {id: string, name: string}[] = []
+  if (offset < prefixTotal) {
+    items.push(...await findNames(model, prefixWhere, offset, limit))
+  }
+  if (items.length < limit && otherTotal > 0) {
+    items.push(...await findNames(model, otherWhere, Math.max(offset - prefixTotal, 0), limit - items.length))
+  }
+
+  return {items, total: prefixTotal + otherTotal, limit, offset}
+}
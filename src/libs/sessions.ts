@@ -0,0 +1,96 @@
+import {createHash} from 'node:crypto'
+import {NextFunction, Request, Response} from 'express'
+import {RedisStore} from 'connect-redis'
+import redis from './redis.js'
+
+// ログイン中のセッション (端末) の管理
+// セッション本体は connect-redis が "sess:<セッションID>" に保存する
+// ユーザーごとのセッションID の一覧を "user:sessions:<ユーザーID>" (集合) に持ち、一覧表示や一括ログアウトに使う
+// セッションID はクッキーの値そのものなので画面・API には出さず、ハッシュの先頭を ID として使う
+// user.session_epoch を増やしたとき (パスワード変更など) は、古い epoch のセッションを revokeAllSessions で消す
+
+export const sessionStore = new RedisStore({client: redis})
+
+// 最終アクセス日時を更新する間隔 (毎回保存しないように)
+const TOUCH_INTERVAL = 60 * 1000
+// 一覧の集合を残しておく期間 (秒)。期限切れのセッションは一覧を作るときに取り除く
+const INDEX_TTL = 7 * 24 * 60 * 60
+
+const indexKey = (userId: string) => `user:sessions:${userId}`
+
+export function sessionHandle(sid: string) {
+  return createHash('sha256').update(sid).digest('hex').slice(0, 16)
+}
+
+// passport.authenticate('session') の後に置き、ログイン中のセッションに端末情報を付けて一覧に載せる
+// passport はログイン時にセッションID を作り直すので、作成日時はログインした日時になる
+export async function trackSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || req.user.token) {
+    return next()
+  }
+  const now = Date.now()
+  const meta = req.session.meta
+  if (meta && now - meta.lastSeenAt < TOUCH_INTERVAL) {
+    return next()
+  }
+  req.session.meta = {
+    createdAt: meta?.createdAt ?? now,
+    lastSeenAt: now,
+    userAgent: req.get('user-agent') ?? '',
+    ip: req.ip ?? ''
+  }
+  await redis.sAdd(indexKey(req.user.id), req.sessionID)
+  await redis.expire(indexKey(req.user.id), INDEX_TTL)
+  next()
+}
+
+export async function untrackSession(userId: string, sid: string) {
+  await redis.sRem(indexKey(userId), sid)
+}
+
+// ユーザーの有効なセッションの一覧 (最終アクセスの新しい順)
+// epoch が今の user.session_epoch と違うセッションは deserializeUser で未ログインになるので、ここで消す
+export async function listSessions(userId: string, currentSid: string, epoch: number) {
+  const sessions = []
+  for (const sid of await redis.sMembers(indexKey(userId))) {
+    const data = await sessionStore.get(sid)
+    const user = data?.passport?.user
+    if (!data || user?.id !== userId || (user.epoch ?? 0) !== epoch) {
+      if (data) {
+        await sessionStore.destroy(sid)
+      }
+      await untrackSession(userId, sid)
+      continue
+    }
+    sessions.push({
+      id: sessionHandle(sid),
+      current: sid === currentSid,
+      created_at: data.meta ? new Date(data.meta.createdAt) : null,
+      last_seen_at: data.meta ? new Date(data.meta.lastSeenAt) : null,
+      user_agent: data.meta?.userAgent ?? '',
+      ip: data.meta?.ip ?? ''
+    })
+  }
+  return sessions.sort((a, b) => (b.last_seen_at?.getTime() ?? 0) - (a.last_seen_at?.getTime() ?? 0))
+}
+
+// 1つのセッションをログアウトさせる (見つからなければ false)
+export async function revokeSession(userId: string, handle: string) {
+  const sid = (await redis.sMembers(indexKey(userId))).find(sid => sessionHandle(sid) === handle)
+  if (!sid) {
+    return false
+  }
+  await sessionStore.destroy(sid)
+  await untrackSession(userId, sid)
+  return true
+}
+
+// すべてのセッションをログアウトさせる (keepSid を渡したらそのセッションだけは残す)
+export async function revokeAllSessions(userId: string, keepSid?: string) {
+  const sids = (await redis.sMembers(indexKey(userId))).filter(sid => sid !== keepSid)
+  for (const sid of sids) {
+    await sessionStore.destroy(sid)
+    await untrackSession(userId, sid)
+  }
+  return sids.length
+}
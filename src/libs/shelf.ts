@@ -0,0 +1,61 @@
+import {Prisma} from 'db'
+import prisma from './db.js'
+import {formatContributors} from './contributor.js'
+
+// 著者・出版社のページなどで使う、貸出状況付きの書籍一覧 (ページング付き)
+
+export const SHELF_PER_PAGE = 10
+
+type ShelfOptions = {
+  where: Prisma.bookWhereInput
+  page: number
+  perPage?: number
+}
+
+export async function findShelfPage({where, page, perPage = SHELF_PER_PAGE}: ShelfOptions) {
+  const bookWhere = {...where, isDeleted: false}
+  const total = await prisma.book.count({where: bookWhere})
+  const lastPage = Math.ceil(total / perPage) || 1
+  const current = Math.min(Math.max(page, 1), lastPage)
+
+  const now = new Date()
+  const books = await prisma.book.findMany({
+    where: bookWhere,
+    orderBy: [{publication_year: 'desc'}, {publication_month: 'desc'}],
+    take: perPage,
+    skip: (current - 1) * perPage,
+    include: {
+      contributors: {include: {author: true}},
+      publisher: true,
+      // 除籍されていない所蔵と、その貸出中の記録
+      copies: {
+        where: {isRetired: false},
+        select: {rentals: {where: {returned_date: null}, select: {id: true}}}
+      },
+      // 期限内の取り置き (その分は貸出可能数から除く)
+      reservations: {
+        where: {status: 'ready', expires_at: {gt: now}},
+        select: {id: true}
+      }
+    }
+  })
+
+  return {
+    current,
+    last_page: lastPage,
+    total,
+    books: books.map(book => {
+      const free = book.copies.filter(copy => copy.rentals.length === 0).length
+      return {
+        isbn: book.isbn.toString(),
+        title: book.title,
+        contributors: formatContributors(book.contributors),
+        publisher: {id: book.publisher.id, name: book.publisher.name},
+        publication_year_month: `${book.publication_year}.${book.publication_month}`,
+        cover_url: book.cover_file ? `/book/${book.isbn}/cover` : null,
+        copy_count: book.copies.length,
+        available_count: Math.max(free - book.reservations.length, 0)
+      }
+    })
+  }
+}
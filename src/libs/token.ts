@@ -0,0 +1,143 @@
+import createError from 'http-errors'
+import {createHash, randomBytes} from 'node:crypto'
+import prisma from './db.js'
+import {recordAudit} from './audit.js'
+import {hasPermission} from './permission.js'
+
+// API用の個人アクセストークン
+// トークン本体は作成時に一度だけ表示し、DBには SHA-256 のハッシュだけを保存する
+
+export type TokenScope = 'catalog:read' | 'loan:own' | 'admin'
+
+export const TOKEN_SCOPES: TokenScope[] = ['catalog:read', 'loan:own', 'admin']
+
+export const TOKEN_SCOPE_LABELS: { [S in TokenScope]: string } = {
+  'catalog:read': '蔵書の参照',
+  'loan:own': '自分の貸出・予約の操作',
+  'admin': '管理機能 (役割で許可された範囲)'
+}
+
+const TOKEN_PREFIX = 'lib_'
+export const TOKENS_PER_USER = 20
+// lastUsedAt を更新する間隔 (リクエストのたびに書き込まないように)
+const LAST_USED_INTERVAL = 60 * 1000
+
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// admin はすべての範囲を含む
+export function scopeAllows(scopes: TokenScope[], scope: TokenScope) {
+  return scopes.includes(scope) || scopes.includes('admin')
+}
+
+export function parseScopes(input: unknown): TokenScope[] {
+  const values = Array.isArray(input)
+    ? input.map(String)
+    : typeof input === 'string' ? input.split(/[\s,]+/) : []
+  const scopes: TokenScope[] = []
+  for (const value of values.filter(Boolean)) {
+    if (!TOKEN_SCOPES.includes(value as TokenScope)) {
+      throw createError(400, `スコープが不正です (${value})`)
+    }
+    if (!scopes.includes(value as TokenScope)) {
+      scopes.push(value as TokenScope)
+    }
+  }
+  if (scopes.length === 0) {
+    throw createError(400, 'スコープを1つ以上指定してください')
+  }
+  return scopes
+}
+
+type CreateOptions = {
+  userId: string
+  name: string
+  scopes: TokenScope[]
+  expiresInDays?: number | null
+}
+
+// トークンを発行する。戻り値の token はこの時しか取得できない
+// 監査ログも同じトランザクションで記録する (ハッシュは記録しない)
+export async function createApiToken({userId, name, scopes, expiresInDays}: CreateOptions) {
+  if (!name || name.length > 64) {
+    throw createError(400, 'トークン名は1〜64文字で入力してください')
+  }
+  // admin はユーザー管理の権限を持つユーザー (管理者) だけが発行できる
+  if (scopes.includes('admin') && !await hasPermission(userId, 'user:manage')) {
+    throw createError(403, '管理機能のトークンを発行する権限がありません')
+  }
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url')
+  const record = await prisma.$transaction(async (tx) => {
+    const count = await tx.api_token.count({where: {user_id: userId, revokedAt: null}})
+    if (count >= TOKENS_PER_USER) {
+      throw createError(409, `トークンは${TOKENS_PER_USER}個までです`)
+    }
+    const created = await tx.api_token.create({
+      data: {
+        user_id: userId,
+        name,
+        token_hash: hashToken(token),
+        prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        scopes: scopes.join(' '),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+      }
+    })
+    const {token_hash, ...audited} = created
+    await recordAudit({actorId: userId, action: 'create', entity: 'api_token', entityId: created.id, after: audited}, tx)
+    return created
+  })
+  return {token, record}
+}
+
+// トークンからユーザーを探す (失効・期限切れ・無効化されたユーザーは null)
+export async function findTokenUser(token: string) {
+  const record = await prisma.api_token.findUnique({
+    where: {token_hash: hashToken(token)},
+    include: {user: true}
+  })
+  if (!record || record.revokedAt || record.user.isDeleted) {
+    return null
+  }
+  if (record.expiresAt && record.expiresAt <= new Date()) {
+    return null
+  }
+  const now = new Date()
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_INTERVAL) {
+    await prisma.api_token.update({where: {id: record.id}, data: {lastUsedAt: now}})
+  }
+  return {
+    id: record.user.id,
+    name: record.user.name,
+    token: {id: record.id, scopes: record.scopes.split(' ') as TokenScope[]}
+  }
+}
+
+export async function listApiTokens(userId: string) {
+  const tokens = await prisma.api_token.findMany({
+    where: {user_id: userId, revokedAt: null},
+    orderBy: {createdAt: 'desc'}
+  })
+  return tokens.map(t => ({
+    id: t.id,
+    name: t.name,
+    prefix: t.prefix,
+    scopes: t.scopes.split(' '),
+    last_used_at: t.lastUsedAt,
+    expires_at: t.expiresAt,
+    created_at: t.createdAt
+  }))
+}
+
+export async function revokeApiToken(userId: string, tokenId: string) {
+  return prisma.$transaction(async (tx) => {
+    const token = await tx.api_token.findUnique({where: {id: tokenId}})
+    if (!token || token.user_id !== userId || token.revokedAt) {
+      throw createError(404, 'トークンが見つかりません')
+    }
+    const revoked = await tx.api_token.update({where: {id: tokenId}, data: {revokedAt: new Date()}})
+    const {token_hash, ...audited} = revoked
+    await recordAudit({actorId: userId, action: 'revoke', entity: 'api_token', entityId: revoked.id, after: audited}, tx)
+    return revoked
+  })
+}
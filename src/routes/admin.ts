@@ -1,47 +1,109 @@
-import { Router, Request, Response, NextFunction } from 'express'
-import { PrismaClient } from '@prisma/client'
+import { NextFunction, Request, Response, Router } from 'express'
+import createError from 'http-errors'
+import { Prisma, PrismaClient } from '@prisma/client'
+import multer from 'multer'
+import { getFineBalance, listOutstandingBalances, recordFinePayment } from '../libs/fine.js'
+import { nextBarcode } from '../libs/copy.js'
+import { analyzeImport, applyImport, exportCatalog } from '../libs/catalog.js'
+import { parseIsbn } from '../libs/isbn.js'
+import { requirePermission, getUserRoles, ROLES } from '../libs/permission.js'
+import { addCopy, checkoutBook, retireCopy, returnRental } from '../libs/loan.js'
+import { isOverdue } from '../libs/fine.js'
+import { recordAudit } from '../libs/audit.js'
+import { CONTRIBUTOR_ROLES, CONTRIBUTOR_ROLE_LABELS, contributorSummary, formatContributors, parseContributors, toContributorRows } from '../libs/contributor.js'
+import { formatTags, parseBookMetadata, parseTags, toTagRows } from '../libs/metadata.js'
+import { COVER_MAX_BYTES, removeCover, saveCover } from '../libs/cover.js'
+import { acceptToken } from '../libs/auth.js'
+import { apiOperation, EMAIL, ISBN, JsonSchema, PAGE, UUID } from '../libs/openapi.js'
+import { toSearchKey } from '../libs/search.js'
+import { accountLockSeconds, listLockouts, unlockAccount } from '../libs/lockout.js'
+import { revokeAllSessions } from '../libs/sessions.js'
 
 const router = Router()
 const prisma = new PrismaClient()
+// CSV取り込み用 (ファイルはメモリ上で扱う)
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 1024 * 1024 } })
+// 書影のアップロード用 (形式は保存時に画像の中身で判定する)
+const coverUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: COVER_MAX_BYTES } })
+const USERS_PER_PAGE = 20
+const AUDIT_PER_PAGE = 50
+// ゴミ箱で扱う種類と表示名
+const TRASH_ENTITIES: Record<string, string> = { author: '著者', publisher: '出版社', book: '書籍' }
 
 // ==========================================
-// 共通ミドルウェア: 管理者権限チェック
+// 共通ミドルウェア: 権限チェック
 // ==========================================
-const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
-    // 未ログインチェック
-    if (!req.user || !(req.user as any).id) {
-        if (req.accepts('json') && !req.accepts('html')) {
-            return res.status(403).json({ message: 'ログインしていません' })
-        }
-        return res.redirect('/')
-    }
+// 書籍・著者・出版社の編集 (cataloguer / admin)
+const requireCatalog = requirePermission('catalog:manage')
+// 貸出・延滞料の管理 (librarian / admin)
+const requireLoan = requirePermission('loan:manage')
+// ユーザー・役割・ポリシーの管理 (admin)
+const requireUserAdmin = requirePermission('user:manage')
 
-    try {
-        const currentUser = await prisma.user.findUnique({
-            where: { id: (req.user as any).id }
-        })
+// API トークンは admin スコープのものだけ受け付ける (権限は上の役割チェックに従う)
+router.use(acceptToken('admin'))
 
-        const isAdmin = currentUser && (currentUser.is_admin === true || (currentUser.is_admin as any) === 1)
+// ==========================================
+// 入力の仕様 (OpenAPI) で共通に使うもの
+// ==========================================
+const ID_BODY: JsonSchema = { type: 'object', required: ['id'], properties: { id: UUID } }
+const NAME_BODY: JsonSchema = { type: 'object', required: ['name'], properties: { name: { type: 'string', maxLength: 128 } } }
+const ID_NAME_BODY: JsonSchema = { type: 'object', required: ['id', 'name'], properties: { id: UUID, name: { type: 'string', maxLength: 128 } } }
+const ISBN_BODY: JsonSchema = { type: 'object', required: ['isbn'], properties: { isbn: ISBN } }
 
-        if (!isAdmin) {
-            if (req.accepts('json') && !req.accepts('html')) {
-                return res.status(403).json({ message: '管理者権限がありません' })
+// 書籍の登録・更新 (著者・訳者などは contributors、なければ author_id を1人目の著者にする)
+const BOOK_BODY: JsonSchema = {
+    type: 'object',
+    required: ['isbn', 'title', 'publisher_id', 'publication_year', 'publication_month'],
+    properties: {
+        isbn: ISBN,
+        title: { type: 'string', maxLength: 512 },
+        publisher_id: UUID,
+        publication_year: { type: 'integer', minimum: 0, maximum: 9999 },
+        publication_month: { type: 'integer', minimum: 1, maximum: 12 },
+        contributors: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    author_id: UUID,
+                    role: { type: 'string', enum: CONTRIBUTOR_ROLES }
+                }
             }
-            return res.redirect('/')
+        },
+        author_id: UUID,
+        description: { type: 'string', maxLength: 4000 },
+        page_count: { type: 'integer', minimum: 1, maximum: 100000 },
+        language: { type: 'string', maxLength: 16, description: '言語タグ (ja, en など)' },
+        tags: {
+            anyOf: [
+                { type: 'array', items: { type: 'string', maxLength: 64 } },
+                { type: 'string', description: 'カンマ区切り' }
+            ]
         }
-        next()
-    } catch (e) {
-        console.error(e)
-        res.redirect('/')
     }
 }
 
+// 貸出ポリシーの数値
+const POLICY_PROPERTIES: { [name: string]: JsonSchema } = {
+    name: { type: 'string', maxLength: 64 },
+    max_loans: { type: 'integer', minimum: 1, maximum: 255 },
+    loan_days: { type: 'integer', minimum: 1, maximum: 365 },
+    max_renewals: { type: 'integer', minimum: 0, maximum: 255 }
+}
+
+const TRASH_PARAMS = { entity: { type: 'string', enum: Object.keys(TRASH_ENTITIES) } as JsonSchema }
+const TRASH_BODY: JsonSchema = { type: 'object', required: ['id'], properties: { id: { type: 'string', maxLength: 36, description: 'ID (書籍は ISBN)' } } }
+
 // -----------------------------------------------------------
 // 1. 著者 (Author)
 // -----------------------------------------------------------
 
 // 一覧 GET
-router.get('/author', requireAdmin, async (req, res, next) => {
+router.get('/author', requireCatalog, apiOperation({
+    operationId: 'adminListAuthors', method: 'get', path: '/admin/author', tag: 'admin', scope: 'admin',
+    summary: '著者一覧'
+}), async (req, res, next) => {
     try {
         const authors = await prisma.author.findMany({ where: { isDeleted: false }, orderBy: { name: 'asc' } })
         res.format({
@@ -52,11 +114,19 @@ router.get('/author', requireAdmin, async (req, res, next) => {
 })
 
 // 登録 POST
-router.post('/author', requireAdmin, async (req, res) => {
+router.post('/author', requireCatalog, apiOperation({
+    operationId: 'adminCreateAuthor', method: 'post', path: '/admin/author', tag: 'admin', scope: 'admin',
+    summary: '著者の登録',
+    body: NAME_BODY
+}), async (req, res) => {
     try {
         const { name } = req.body
         if (!name) throw new Error('著者名は必須です')
-        const newAuthor = await prisma.author.create({ data: { name } })
+        const newAuthor = await prisma.$transaction(async (tx) => {
+            const created = await tx.author.create({ data: { name, search_key: toSearchKey(name) } })
+            await recordAudit({ actorId: req.user!.id, action: 'create', entity: 'author', entityId: created.id, after: created }, tx)
+            return created
+        })
 
         res.format({
             html: () => res.redirect('/admin/author'),
@@ -72,21 +142,42 @@ router.post('/author', requireAdmin, async (req, res) => {
 })
 
 // 更新 PUT
-router.put('/author', requireAdmin, async (req, res) => {
+router.put('/author', requireCatalog, apiOperation({
+    operationId: 'adminUpdateAuthor', method: 'put', path: '/admin/author', tag: 'admin', scope: 'admin',
+    summary: '著者名の変更',
+    body: ID_NAME_BODY
+}), async (req, res) => {
     try {
         const { id, name } = req.body
-        const updated = await prisma.author.update({ where: { id }, data: { name } })
+        const updated = await prisma.$transaction(async (tx) => {
+            const before = await tx.author.findUnique({ where: { id } })
+            const after = await tx.author.update({ where: { id }, data: { name, search_key: toSearchKey(name) } })
+            await recordAudit({ actorId: req.user!.id, action: 'update', entity: 'author', entityId: id, before, after }, tx)
+            return after
+        })
         res.status(200).json({ id: updated.id, name: updated.name }) // AJAX/JSON前提なのでこのままでOK
     } catch (err) { res.status(400).json({ message: '更新失敗' }) }
 })
 
 // 削除 DELETE
-router.delete('/author', requireAdmin, async (req, res) => {
+router.delete('/author', requireCatalog, apiOperation({
+    operationId: 'adminDeleteAuthor', method: 'delete', path: '/admin/author', tag: 'admin', scope: 'admin',
+    summary: '著者の削除 (ゴミ箱へ)',
+    body: ID_BODY
+}), async (req, res) => {
     try {
         const { id } = req.body
-        await prisma.author.update({ where: { id }, data: { isDeleted: true } })
+        // 削除されていない書籍が使っている著者は削除できない
+        const inUse = await prisma.book.count({ where: { isDeleted: false, contributors: { some: { author_id: id } } } })
+        if (inUse > 0) throw createError(409, `${inUse}冊の書籍で使われているため削除できません`)
+
+        await prisma.$transaction(async (tx) => {
+            const before = await tx.author.findUnique({ where: { id } })
+            const deleted = await tx.author.update({ where: { id }, data: { isDeleted: true } })
+            await recordAudit({ actorId: req.user!.id, action: 'delete', entity: 'author', entityId: id, before, after: deleted }, tx)
+        })
         res.status(200).json({ message: '削除しました' })
-    } catch (err) { res.status(400).json({ message: '削除失敗' }) }
+    } catch (err: any) { res.status(err.status || 400).json({ message: err.status ? err.message : '削除失敗' }) }
 })
 
 
@@ -95,7 +186,10 @@ router.delete('/author', requireAdmin, async (req, res) => {
 // -----------------------------------------------------------
 
 // 一覧 GET
-router.get('/publisher', requireAdmin, async (req, res, next) => {
+router.get('/publisher', requireCatalog, apiOperation({
+    operationId: 'adminListPublishers', method: 'get', path: '/admin/publisher', tag: 'admin', scope: 'admin',
+    summary: '出版社一覧'
+}), async (req, res, next) => {
     try {
         const publishers = await prisma.publisher.findMany({ where: { isDeleted: false }, orderBy: { name: 'asc' } })
         res.format({
@@ -106,11 +200,19 @@ router.get('/publisher', requireAdmin, async (req, res, next) => {
 })
 
 // 登録 POST
-router.post('/publisher', requireAdmin, async (req, res) => {
+router.post('/publisher', requireCatalog, apiOperation({
+    operationId: 'adminCreatePublisher', method: 'post', path: '/admin/publisher', tag: 'admin', scope: 'admin',
+    summary: '出版社の登録',
+    body: NAME_BODY
+}), async (req, res) => {
     try {
         const { name } = req.body
         if (!name) throw new Error('出版社名は必須です')
-        const newPub = await prisma.publisher.create({ data: { name } })
+        const newPub = await prisma.$transaction(async (tx) => {
+            const created = await tx.publisher.create({ data: { name, search_key: toSearchKey(name) } })
+            await recordAudit({ actorId: req.user!.id, action: 'create', entity: 'publisher', entityId: created.id, after: created }, tx)
+            return created
+        })
 
         res.format({
             html: () => res.redirect('/admin/publisher'),
@@ -125,21 +227,42 @@ router.post('/publisher', requireAdmin, async (req, res) => {
 })
 
 // 更新 PUT
-router.put('/publisher', requireAdmin, async (req, res) => {
+router.put('/publisher', requireCatalog, apiOperation({
+    operationId: 'adminUpdatePublisher', method: 'put', path: '/admin/publisher', tag: 'admin', scope: 'admin',
+    summary: '出版社名の変更',
+    body: ID_NAME_BODY
+}), async (req, res) => {
     try {
         const { id, name } = req.body
-        const updated = await prisma.publisher.update({ where: { id }, data: { name } })
+        const updated = await prisma.$transaction(async (tx) => {
+            const before = await tx.publisher.findUnique({ where: { id } })
+            const after = await tx.publisher.update({ where: { id }, data: { name, search_key: toSearchKey(name) } })
+            await recordAudit({ actorId: req.user!.id, action: 'update', entity: 'publisher', entityId: id, before, after }, tx)
+            return after
+        })
         res.status(200).json({ id: updated.id, name: updated.name })
     } catch (err) { res.status(400).json({ message: '更新失敗' }) }
 })
 
 // 削除 DELETE
-router.delete('/publisher', requireAdmin, async (req, res) => {
+router.delete('/publisher', requireCatalog, apiOperation({
+    operationId: 'adminDeletePublisher', method: 'delete', path: '/admin/publisher', tag: 'admin', scope: 'admin',
+    summary: '出版社の削除 (ゴミ箱へ)',
+    body: ID_BODY
+}), async (req, res) => {
     try {
         const { id } = req.body
-        await prisma.publisher.update({ where: { id }, data: { isDeleted: true } })
+        // 削除されていない書籍が使っている出版社は削除できない
+        const inUse = await prisma.book.count({ where: { publisher_id: id, isDeleted: false } })
+        if (inUse > 0) throw createError(409, `${inUse}冊の書籍で使われているため削除できません`)
+
+        await prisma.$transaction(async (tx) => {
+            const before = await tx.publisher.findUnique({ where: { id } })
+            const deleted = await tx.publisher.update({ where: { id }, data: { isDeleted: true } })
+            await recordAudit({ actorId: req.user!.id, action: 'delete', entity: 'publisher', entityId: id, before, after: deleted }, tx)
+        })
         res.status(200).json({ message: '削除しました' })
-    } catch (err) { res.status(400).json({ message: '削除失敗' }) }
+    } catch (err: any) { res.status(err.status || 400).json({ message: err.status ? err.message : '削除失敗' }) }
 })
 
 
@@ -148,64 +271,103 @@ router.delete('/publisher', requireAdmin, async (req, res) => {
 // -----------------------------------------------------------
 
 // 一覧 GET
-router.get('/book', requireAdmin, async (req, res, next) => {
+router.get('/book', requireCatalog, apiOperation({
+    operationId: 'adminListBooks', method: 'get', path: '/admin/book', tag: 'admin', scope: 'admin',
+    summary: '書籍一覧 (所蔵付き)'
+}), async (req, res, next) => {
     try {
+        // 著者・出版社・所蔵 (と貸出中の記録) をまとめて取得
         const booksRaw = await prisma.book.findMany({
             where: { isDeleted: false },
-            orderBy: [{ publication_year: 'desc' }, { publication_month: 'desc' }]
+            orderBy: [{ publication_year: 'desc' }, { publication_month: 'desc' }],
+            include: {
+                contributors: { include: { author: true } },
+                publisher: true,
+                tags: { include: { tag: true } },
+                copies: {
+                    where: { isRetired: false },
+                    orderBy: { createdAt: 'asc' },
+                    include: { rentals: { where: { returned_date: null }, select: { id: true } } }
+                }
+            }
         })
 
-        // 書籍リスト結合処理
-        const books = await Promise.all(booksRaw.map(async (book: any) => {
-            const author = await prisma.author.findUnique({ where: { id: book.author_id } })
-            const publisher = await prisma.publisher.findUnique({ where: { id: book.publisher_id } })
+        // 書籍リスト整形
+        const books = booksRaw.map((book) => {
+            const contributors = formatContributors(book.contributors)
             return {
                 isbn: book.isbn.toString(),
                 title: book.title,
-                authorName: author ? author.name : '不明',
-                publisherName: publisher ? publisher.name : '不明',
+                contributorNames: contributorSummary(contributors),
+                publisherName: book.publisher.name,
                 publication_year_month: `${book.publication_year}.${book.publication_month}`,
-                author_id: book.author_id,
+                // 編集フォーム用 (表示順)
+                contributors: contributors.map((c) => ({ author_id: c.id, name: c.name, role: c.role })),
                 publisher_id: book.publisher_id,
                 year: book.publication_year,
-                month: book.publication_month
+                month: book.publication_month,
+                description: book.description,
+                page_count: book.page_count,
+                language: book.language,
+                tags: formatTags(book.tags),
+                has_cover: book.cover_file !== null,
+                copies: book.copies.map((copy) => ({
+                    id: copy.id,
+                    barcode: copy.barcode,
+                    on_loan: copy.rentals.length > 0
+                }))
             }
-        }))
-
-        // フォーム用選択リスト
-        const [authors, publishers] = await Promise.all([
-            prisma.author.findMany({ where: { isDeleted: false }, orderBy: { name: 'asc' } }),
-            prisma.publisher.findMany({ where: { isDeleted: false }, orderBy: { name: 'asc' } })
-        ])
+        })
 
+        // 著者・出版社はフォームの入力補完 (GET /book/search/:type) で選ぶ
         res.format({
-            html: () => res.render('admin/book', { title: '書籍管理', books, authors, publishers }),
+            html: () => res.render('admin/book', {
+                title: '書籍管理', books,
+                roles: CONTRIBUTOR_ROLES, roleLabels: CONTRIBUTOR_ROLE_LABELS
+            }),
             json: () => res.json({ books })
         })
     } catch (err) { next(err) }
 })
 
 // 登録 POST
-router.post('/book', requireAdmin, async (req, res) => {
+router.post('/book', requireCatalog, apiOperation({
+    operationId: 'adminCreateBook', method: 'post', path: '/admin/book', tag: 'admin', scope: 'admin',
+    summary: '書籍の登録 (1冊目の所蔵も登録する)',
+    body: BOOK_BODY
+}), async (req, res) => {
     try {
-        const { isbn, title, author_id, publisher_id, publication_year, publication_month } = req.body
+        // 必須項目・型は apiOperation でチェック済み (年月は数値になっている)
+        const { isbn, title, publisher_id, publication_year, publication_month } = req.body
 
-        // バリデーション等
-        if (!isbn || !title) throw new Error('必須項目不足')
-        let isbnBig: bigint
-        try { isbnBig = BigInt(isbn) } catch { throw new Error('ISBN形式エラー') }
+        // 著者・訳者など (並び順どおりに保存)
+        const contributors = parseContributors(req.body)
+        // あらすじ・ページ数・言語・タグ (いずれも任意)
+        const metadata = parseBookMetadata(req.body)
+        const tags = parseTags(req.body.tags)
+        // ISBN-10 は ISBN-13 に変換して保存する
+        const isbnBig = parseIsbn(isbn)
+        if (isbnBig === null) throw new Error('ISBN形式エラー (チェックディジット不一致)')
 
         // 重複チェック
         const exists = await prisma.book.findUnique({ where: { isbn: isbnBig } })
         if (exists && !exists.isDeleted) throw new Error('登録済みISBN')
 
-        // 登録
-        await prisma.book.create({
-            data: {
-                isbn: isbnBig, title, author_id, publisher_id,
-                publication_year: parseInt(publication_year),
-                publication_month: parseInt(publication_month)
-            }
+        // 登録 (1冊目の所蔵も一緒に)
+        const barcode = await nextBarcode(isbnBig)
+        await prisma.$transaction(async (tx) => {
+            const created = await tx.book.create({
+                data: {
+                    isbn: isbnBig, title, publisher_id,
+                    publication_year, publication_month,
+                    ...metadata,
+                    contributors: { create: toContributorRows(contributors) },
+                    tags: { create: toTagRows(tags) }
+                },
+                include: { contributors: true, tags: { include: { tag: true } } }
+            })
+            const copy = await tx.book_copy.create({ data: { book_isbn: isbnBig, barcode } })
+            await recordAudit({ actorId: req.user!.id, action: 'create', entity: 'book', entityId: isbnBig, after: { ...created, barcode: copy.barcode } }, tx)
         })
 
         res.format({
@@ -222,18 +384,34 @@ router.post('/book', requireAdmin, async (req, res) => {
 })
 
 // 更新 PUT
-router.put('/book', requireAdmin, async (req, res) => {
+router.put('/book', requireCatalog, apiOperation({
+    operationId: 'adminUpdateBook', method: 'put', path: '/admin/book', tag: 'admin', scope: 'admin',
+    summary: '書籍の更新',
+    body: BOOK_BODY
+}), async (req, res) => {
     try {
-        const { isbn, title, author_id, publisher_id, publication_year, publication_month } = req.body
-        const isbnBig = BigInt(isbn)
+        const { isbn, title, publisher_id, publication_year, publication_month } = req.body
+        const isbnBig = parseIsbn(isbn)
+        if (isbnBig === null) throw new Error('ISBN形式エラー (チェックディジット不一致)')
+        const contributors = parseContributors(req.body)
+        const metadata = parseBookMetadata(req.body)
+        const tags = parseTags(req.body.tags)
 
-        await prisma.book.update({
-            where: { isbn: isbnBig },
-            data: {
-                title, author_id, publisher_id,
-                publication_year: parseInt(publication_year),
-                publication_month: parseInt(publication_month)
-            }
+        await prisma.$transaction(async (tx) => {
+            const before = await tx.book.findUnique({ where: { isbn: isbnBig }, include: { contributors: true, tags: { include: { tag: true } } } })
+            // 著者・訳者など、タグは入れ替える
+            const updated = await tx.book.update({
+                where: { isbn: isbnBig },
+                data: {
+                    title, publisher_id,
+                    publication_year, publication_month,
+                    ...metadata,
+                    contributors: { deleteMany: {}, create: toContributorRows(contributors) },
+                    tags: { deleteMany: {}, create: toTagRows(tags) }
+                },
+                include: { contributors: true, tags: { include: { tag: true } } }
+            })
+            await recordAudit({ actorId: req.user!.id, action: 'update', entity: 'book', entityId: isbnBig, before, after: updated }, tx)
         })
         return res.status(200).json({ message: '更新しました' })
 
@@ -244,16 +422,1186 @@ router.put('/book', requireAdmin, async (req, res) => {
 })
 
 // 削除 DELETE
-router.delete('/book', requireAdmin, async (req, res) => {
+router.delete('/book', requireCatalog, apiOperation({
+    operationId: 'adminDeleteBook', method: 'delete', path: '/admin/book', tag: 'admin', scope: 'admin',
+    summary: '書籍の削除 (ゴミ箱へ)',
+    body: ISBN_BODY
+}), async (req, res) => {
     try {
-        const { isbn } = req.body
-        await prisma.book.update({
-            where: { isbn: BigInt(isbn) },
-            data: { isDeleted: true }
+        const isbnBig = parseIsbn(req.body.isbn)
+        if (isbnBig === null) throw createError(400, 'ISBN形式エラー')
+
+        const before = await prisma.book.findUnique({ where: { isbn: isbnBig } })
+        if (!before || before.isDeleted) throw createError(404, '書籍が存在しません')
+
+        await prisma.$transaction(async (tx) => {
+            const deleted = await tx.book.update({
+                where: { isbn: isbnBig },
+                data: { isDeleted: true }
+            })
+            await recordAudit({ actorId: req.user!.id, action: 'delete', entity: 'book', entityId: deleted.isbn, before, after: deleted }, tx)
         })
         return res.status(200).json({ message: '削除しました' })
     } catch (err: any) {
-        return res.status(400).json({ message: '削除失敗' })
+        return res.status(err.status || 400).json({ message: err.status ? err.message : '削除失敗' })
+    }
+})
+
+
+// 書影の受け取り (サイズ超過は 413 にする)
+function receiveCover(req: Request, res: Response, next: NextFunction) {
+    coverUpload.single('file')(req, res, (err) => {
+        if (err?.code === 'LIMIT_FILE_SIZE') return next(createError(413, `画像は${COVER_MAX_BYTES / 1024 / 1024}MBまでです`))
+        next(err)
+    })
+}
+
+// 書影のアップロード POST (multipart: isbn, file)
+// 差し替えの場合は古い画像を削除する
+router.post('/book/cover', requireCatalog, receiveCover, apiOperation({
+    operationId: 'adminUploadCover', method: 'post', path: '/admin/book/cover', tag: 'admin', scope: 'admin',
+    summary: '書影の登録・差し替え (JPEG / PNG / WebP、2MBまで)',
+    bodyType: 'multipart',
+    body: {
+        type: 'object',
+        required: ['isbn', 'file'],
+        properties: { isbn: ISBN, file: { type: 'string', format: 'binary' } }
+    }
+}), async (req, res) => {
+    try {
+        const isbnBig = parseIsbn(req.body.isbn)
+        if (isbnBig === null) throw createError(400, 'ISBN形式エラー')
+        if (!req.file) throw createError(400, '画像を選択してください')
+
+        const before = await prisma.book.findUnique({ where: { isbn: isbnBig } })
+        if (!before || before.isDeleted) throw createError(404, '書籍が存在しません')
+
+        const fileName = await saveCover(isbnBig, req.file.buffer)
+        await prisma.$transaction(async (tx) => {
+            const updated = await tx.book.update({ where: { isbn: isbnBig }, data: { cover_file: fileName } })
+            await recordAudit({ actorId: req.user!.id, action: 'upload_cover', entity: 'book', entityId: isbnBig, before, after: updated }, tx)
+        })
+        // 古い画像は記録が済んでから消す
+        if (before.cover_file) await removeCover(before.cover_file)
+
+        res.format({
+            html: () => res.redirect('/admin/book'),
+            json: () => res.status(200).json({ message: '書影を登録しました', cover_url: `/book/${isbnBig}/cover` })
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/book?error=failed'),
+            json: () => res.status(err.status || 400).json({ message: err.status ? err.message : '書影の登録失敗' })
+        })
+    }
+})
+
+// 書影の削除 DELETE
+router.delete('/book/cover', requireCatalog, apiOperation({
+    operationId: 'adminDeleteCover', method: 'delete', path: '/admin/book/cover', tag: 'admin', scope: 'admin',
+    summary: '書影の削除',
+    body: ISBN_BODY
+}), async (req, res) => {
+    try {
+        const isbnBig = parseIsbn(req.body.isbn)
+        if (isbnBig === null) throw createError(400, 'ISBN形式エラー')
+
+        const before = await prisma.book.findUnique({ where: { isbn: isbnBig } })
+        if (!before) throw createError(404, '書籍が存在しません')
+        if (!before.cover_file) throw createError(404, '書影は登録されていません')
+
+        await prisma.$transaction(async (tx) => {
+            const updated = await tx.book.update({ where: { isbn: isbnBig }, data: { cover_file: null } })
+            await recordAudit({ actorId: req.user!.id, action: 'remove_cover', entity: 'book', entityId: isbnBig, before, after: updated }, tx)
+        })
+        await removeCover(before.cover_file)
+        return res.status(200).json({ message: '書影を削除しました' })
+    } catch (err: any) {
+        return res.status(err.status || 400).json({ message: err.status ? err.message : '書影の削除失敗' })
+    }
+})
+
+// CSV取り込み画面 GET
+router.get('/book/import', requireCatalog, (req, res) => {
+    res.render('admin/import', { title: '書籍CSV取り込み', report: null, csv: '' })
+})
+
+// CSV取り込み POST
+// commit が指定されていなければ検証結果 (ドライラン) だけを返す
+router.post('/book/import', requireCatalog, upload.single('file'), apiOperation({
+    operationId: 'adminImportBooks', method: 'post', path: '/admin/book/import', tag: 'admin', scope: 'admin',
+    summary: 'CSV取り込み (commit がなければ検証結果だけを返す)',
+    bodyType: 'multipart',
+    body: {
+        type: 'object',
+        properties: {
+            file: { type: 'string', format: 'binary' },
+            csv: { type: 'string', description: 'ファイルの代わりに本文で送る場合' },
+            commit: { type: 'boolean' }
+        }
+    }
+}), async (req, res, next) => {
+    try {
+        const csv = req.file ? req.file.buffer.toString('utf8') : String(req.body.csv || '')
+        if (!csv.trim()) {
+            return res.format({
+                html: () => res.redirect('/admin/book/import?error=empty'),
+                json: () => res.status(400).json({ message: 'CSVが空です' })
+            })
+        }
+
+        const report = await analyzeImport(csv)
+        const commit = req.body.commit === '1' || req.body.commit === true || req.body.commit === 'true'
+        if (commit) {
+            await applyImport(report, req.user!.id)
+        }
+
+        res.format({
+            html: () => {
+                if (commit) return res.redirect('/admin/book')
+                res.render('admin/import', { title: '書籍CSV取り込み', report, csv })
+            },
+            json: () => res.status(200).json({ committed: commit, ...report })
+        })
+    } catch (err) { next(err) }
+})
+
+// CSV書き出し GET
+router.get('/book/export', requireCatalog, apiOperation({
+    operationId: 'adminExportBooks', method: 'get', path: '/admin/book/export', tag: 'admin', scope: 'admin',
+    summary: 'CSV書き出し',
+    response: { description: 'CSV', type: 'text/csv', schema: { type: 'string' } }
+}), async (req, res, next) => {
+    try {
+        const csv = await exportCatalog()
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+        res.attachment(`catalogue-${date}.csv`)
+        res.type('text/csv').send(csv)
+    } catch (err) { next(err) }
+})
+
+// 所蔵の追加 POST
+router.post('/book/copy', requireCatalog, apiOperation({
+    operationId: 'adminAddCopy', method: 'post', path: '/admin/book/copy', tag: 'admin', scope: 'admin',
+    summary: '所蔵の追加',
+    body: {
+        type: 'object',
+        required: ['isbn'],
+        properties: { isbn: ISBN, barcode: { type: 'string', maxLength: 64, description: '省略時は自動採番' } }
+    }
+}), async (req, res) => {
+    try {
+        const { isbn, barcode } = req.body
+        const isbnBig = parseIsbn(isbn)
+        if (isbnBig === null) throw new Error('ISBN形式エラー')
+
+        const copy = await addCopy({
+            isbn: isbnBig,
+            barcode: barcode ? String(barcode).trim() : undefined,
+            actorId: req.user!.id
+        })
+
+        res.format({
+            html: () => res.redirect('/admin/book'),
+            json: () => res.status(200).json({ id: copy.id, barcode: copy.barcode })
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/book?error=failed'),
+            json: () => res.status(err.status || 400).json({ message: err.message || '登録失敗' })
+        })
+    }
+})
+
+// 所蔵の除籍 DELETE
+router.delete('/book/copy', requireCatalog, apiOperation({
+    operationId: 'adminRetireCopy', method: 'delete', path: '/admin/book/copy', tag: 'admin', scope: 'admin',
+    summary: '所蔵の除籍',
+    body: ID_BODY
+}), async (req, res) => {
+    try {
+        await retireCopy(req.body.id, req.user!.id)
+        return res.status(200).json({ message: '除籍しました' })
+    } catch (err: any) {
+        return res.status(err.status || 400).json({ message: err.message || '除籍失敗' })
+    }
+})
+
+
+// -----------------------------------------------------------
+// 4. 延滞料 (Fine)
+// -----------------------------------------------------------
+
+// 未払い残高一覧 GET
+router.get('/fine', requireLoan, apiOperation({
+    operationId: 'adminListFines', method: 'get', path: '/admin/fine', tag: 'admin', scope: 'admin',
+    summary: '延滞料の残高と記録'
+}), async (req, res, next) => {
+    try {
+        const outstanding = await listOutstandingBalances()
+
+        const users = await prisma.user.findMany({
+            where: { id: { in: outstanding.map(({ userId }) => userId) } },
+            select: { id: true, name: true, email: true }
+        })
+        const userMap = new Map(users.map((user) => [user.id, user]))
+
+        const balances = outstanding.map(({ userId, balance }) => {
+            const user = userMap.get(userId)
+            return {
+                user_id: userId,
+                name: user ? user.name : '',
+                email: user ? user.email : '',
+                balance
+            }
+        })
+        balances.sort((a, b) => b.balance - a.balance)
+
+        // 直近の台帳記録
+        const entries = await prisma.fine_ledger.findMany({
+            orderBy: { createdAt: 'desc' },
+            take: 50
+        })
+
+        res.format({
+            html: () => res.render('admin/fine', { title: '延滞料管理', balances, entries }),
+            json: () => res.json({ balances, entries })
+        })
+    } catch (err) { next(err) }
+})
+
+// 支払い・免除の記録 POST
+router.post('/fine', requireLoan, apiOperation({
+    operationId: 'adminRecordFine', method: 'post', path: '/admin/fine', tag: 'admin', scope: 'admin',
+    summary: '延滞料の支払い・免除の記録',
+    body: {
+        type: 'object',
+        required: ['user_id', 'type', 'amount'],
+        properties: {
+            user_id: UUID,
+            type: { type: 'string', enum: ['payment', 'waiver'] },
+            amount: { type: 'integer', minimum: 1 },
+            note: { type: 'string', maxLength: 256 }
+        }
+    }
+}), async (req, res) => {
+    try {
+        const { user_id, type, amount, note } = req.body
+
+        if (type !== 'payment' && type !== 'waiver') throw new Error('種別が不正です')
+        const amountNum = parseInt(amount)
+        if (isNaN(amountNum) || amountNum <= 0) throw new Error('金額が不正です')
+
+        const { entry, balance } = await recordFinePayment({
+            userId: user_id, type, amount: amountNum, note, staffId: req.user!.id
+        })
+
+        res.format({
+            html: () => res.redirect('/admin/fine'),
+            json: () => res.status(200).json({ id: entry.id, balance })
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/fine?error=failed'),
+            json: () => res.status(err.status || 400).json({ message: err.message || '記録失敗' })
+        })
+    }
+})
+
+
+// -----------------------------------------------------------
+// 5. 貸出ポリシー (Policy)
+// -----------------------------------------------------------
+
+// 入力値を貸出ポリシーの数値に変換する (不正なら例外)
+function parsePolicyInput(body: any) {
+    const max_loans = parseInt(body.max_loans)
+    const loan_days = parseInt(body.loan_days)
+    const max_renewals = parseInt(body.max_renewals)
+    if (isNaN(max_loans) || max_loans < 1 || max_loans > 255) throw new Error('貸出上限冊数は1〜255で指定してください')
+    if (isNaN(loan_days) || loan_days < 1 || loan_days > 365) throw new Error('貸出日数は1〜365で指定してください')
+    if (isNaN(max_renewals) || max_renewals < 0 || max_renewals > 255) throw new Error('延長回数は0〜255で指定してください')
+    return { max_loans, loan_days, max_renewals }
+}
+
+// 一覧 GET
+router.get('/policy', requireUserAdmin, apiOperation({
+    operationId: 'adminListPolicies', method: 'get', path: '/admin/policy', tag: 'admin', scope: 'admin',
+    summary: '貸出ポリシー一覧'
+}), async (req, res, next) => {
+    try {
+        const policies = await prisma.loan_policy.findMany({ orderBy: { name: 'asc' } })
+
+        // 個別にポリシーが割り当てられているユーザー
+        const assignedUsers = await prisma.user.findMany({
+            where: { loan_policy_id: { not: null } },
+            select: { id: true, name: true, email: true, loan_policy_id: true },
+            orderBy: { name: 'asc' }
+        })
+
+        res.format({
+            html: () => res.render('admin/policy', { title: '貸出ポリシー管理', policies, assignedUsers }),
+            json: () => res.json({ policies, users: assignedUsers })
+        })
+    } catch (err) { next(err) }
+})
+
+// 登録 POST
+router.post('/policy', requireUserAdmin, apiOperation({
+    operationId: 'adminCreatePolicy', method: 'post', path: '/admin/policy', tag: 'admin', scope: 'admin',
+    summary: '貸出ポリシーの登録',
+    body: { type: 'object', required: ['name', 'max_loans', 'loan_days', 'max_renewals'], properties: POLICY_PROPERTIES }
+}), async (req, res) => {
+    try {
+        const { name } = req.body
+        if (!name) throw new Error('ポリシー名は必須です')
+        const values = parsePolicyInput(req.body)
+        const policy = await prisma.$transaction(async (tx) => {
+            const created = await tx.loan_policy.create({ data: { name, ...values } })
+            await recordAudit({ actorId: req.user!.id, action: 'create', entity: 'loan_policy', entityId: created.id, after: created }, tx)
+            return created
+        })
+
+        res.format({
+            html: () => res.redirect('/admin/policy'),
+            json: () => res.status(200).json(policy)
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/policy?error=failed'),
+            json: () => res.status(400).json({ message: err.message || '登録失敗' })
+        })
+    }
+})
+
+// 更新 PUT
+router.put('/policy', requireUserAdmin, apiOperation({
+    operationId: 'adminUpdatePolicy', method: 'put', path: '/admin/policy', tag: 'admin', scope: 'admin',
+    summary: '貸出ポリシーの更新',
+    body: {
+        type: 'object',
+        required: ['id', 'max_loans', 'loan_days', 'max_renewals'],
+        properties: { id: UUID, ...POLICY_PROPERTIES, is_default: { type: 'boolean' } }
+    }
+}), async (req, res) => {
+    try {
+        const { id, name, is_default } = req.body
+        const values = parsePolicyInput(req.body)
+
+        const updated = await prisma.$transaction(async (tx) => {
+            const before = await tx.loan_policy.findUnique({ where: { id } })
+            if (!before) throw new Error('ポリシーが存在しません')
+            // 既定のポリシーは1つだけ (外してから付け替えるまでを1つのトランザクションで行い、既定がない状態を作らない)
+            if (is_default) {
+                await tx.loan_policy.updateMany({ where: { isDefault: true }, data: { isDefault: false } })
+            }
+            const after = await tx.loan_policy.update({
+                where: { id },
+                data: { name, ...values, ...(is_default ? { isDefault: true } : {}) }
+            })
+            await recordAudit({ actorId: req.user!.id, action: 'update', entity: 'loan_policy', entityId: id, before, after }, tx)
+            return after
+        })
+        res.status(200).json(updated)
+    } catch (err: any) { res.status(400).json({ message: err.message || '更新失敗' }) }
+})
+
+// 削除 DELETE
+router.delete('/policy', requireUserAdmin, apiOperation({
+    operationId: 'adminDeletePolicy', method: 'delete', path: '/admin/policy', tag: 'admin', scope: 'admin',
+    summary: '貸出ポリシーの削除',
+    body: ID_BODY
+}), async (req, res) => {
+    try {
+        const { id } = req.body
+        const policy = await prisma.loan_policy.findUnique({ where: { id } })
+        if (!policy) throw new Error('ポリシーが存在しません')
+        if (policy.isDefault) throw new Error('既定のポリシーは削除できません')
+
+        const inUse = await prisma.user.count({ where: { loan_policy_id: id } })
+        if (inUse > 0) throw new Error(`${inUse}人のユーザーに割り当てられています`)
+
+        await prisma.$transaction(async (tx) => {
+            await tx.loan_policy.delete({ where: { id } })
+            await recordAudit({ actorId: req.user!.id, action: 'delete', entity: 'loan_policy', entityId: id, before: policy }, tx)
+        })
+        res.status(200).json({ message: '削除しました' })
+    } catch (err: any) { res.status(400).json({ message: err.message || '削除失敗' }) }
+})
+
+// ユーザーへの割り当て POST (policy_id が空なら既定に戻す)
+router.post('/policy/assign', requireUserAdmin, apiOperation({
+    operationId: 'adminAssignPolicy', method: 'post', path: '/admin/policy/assign', tag: 'admin', scope: 'admin',
+    summary: 'ユーザーへの貸出ポリシーの割り当て (policy_id が空なら既定に戻す)',
+    body: { type: 'object', required: ['email'], properties: { email: EMAIL, policy_id: UUID } }
+}), async (req, res) => {
+    try {
+        const { email, policy_id } = req.body
+        const user = await prisma.user.findUnique({ where: { email } })
+        if (!user) throw new Error('ユーザーが存在しません')
+
+        if (policy_id) {
+            const policy = await prisma.loan_policy.findUnique({ where: { id: policy_id } })
+            if (!policy) throw new Error('ポリシーが存在しません')
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.user.update({
+                where: { id: user.id },
+                data: { loan_policy_id: policy_id || null }
+            })
+            await recordAudit({
+                actorId: req.user!.id, action: 'assign_policy', entity: 'user', entityId: user.id,
+                before: { loan_policy_id: user.loan_policy_id }, after: { loan_policy_id: policy_id || null }
+            }, tx)
+        })
+
+        res.format({
+            html: () => res.redirect('/admin/policy'),
+            json: () => res.status(200).json({ message: '割り当てました' })
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/policy?error=failed'),
+            json: () => res.status(400).json({ message: err.message || '割り当て失敗' })
+        })
+    }
+})
+
+
+// -----------------------------------------------------------
+// 6. 役割 (Role)
+// -----------------------------------------------------------
+
+// 一覧 GET (何らかの役割を持つユーザー)
+router.get('/role', requireUserAdmin, apiOperation({
+    operationId: 'adminListRoles', method: 'get', path: '/admin/role', tag: 'admin', scope: 'admin',
+    summary: '役割を持つユーザーの一覧'
+}), async (req, res, next) => {
+    try {
+        const usersRaw = await prisma.user.findMany({
+            where: { isDeleted: false, OR: [{ is_admin: true }, { roles: { some: {} } }] },
+            orderBy: { name: 'asc' },
+            include: { roles: true }
+        })
+
+        // admin は user.is_admin から判定する (getUserRoles と同じ並び)
+        const users = usersRaw.map((user) => ({
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            roles: [...(user.is_admin ? ['admin'] : []), ...user.roles.map((row) => row.role)]
+        }))
+
+        res.format({
+            html: () => res.render('admin/role', { title: '役割管理', users, roles: ROLES }),
+            json: () => res.json({ users })
+        })
+    } catch (err) { next(err) }
+})
+
+// 付与 POST
+router.post('/role', requireUserAdmin, apiOperation({
+    operationId: 'adminGrantRole', method: 'post', path: '/admin/role', tag: 'admin', scope: 'admin',
+    summary: '役割の付与',
+    body: { type: 'object', required: ['email', 'role'], properties: { email: EMAIL, role: { type: 'string', enum: ROLES } } }
+}), async (req, res) => {
+    try {
+        const { email, role } = req.body
+        if (!ROLES.includes(role)) throw new Error('役割が不正です')
+        const user = await prisma.user.findUnique({ where: { email } })
+        if (!user || user.isDeleted) throw new Error('ユーザーが存在しません')
+
+        await prisma.$transaction(async (tx) => {
+            if (role === 'admin') {
+                await tx.user.update({ where: { id: user.id }, data: { is_admin: true } })
+            } else {
+                await tx.user_role.upsert({
+                    where: { user_id_role: { user_id: user.id, role } },
+                    create: { user_id: user.id, role },
+                    update: {}
+                })
+            }
+            await recordAudit({ actorId: req.user!.id, action: 'grant_role', entity: 'user', entityId: user.id, after: { role } }, tx)
+        })
+        const roles = await getUserRoles(user.id)
+
+        res.format({
+            html: () => res.redirect('/admin/role'),
+            json: () => res.status(200).json({ id: user.id, roles })
+        })
+    } catch (err: any) {
+        res.format({
+            html: () => res.redirect('/admin/role?error=failed'),
+            json: () => res.status(400).json({ message: err.message || '付与失敗' })
+        })
+    }
+})
+
+// 剥奪 DELETE
+router.delete('/role', requireUserAdmin, apiOperation({
+    operationId: 'adminRevokeRole', method: 'delete', path: '/admin/role', tag: 'admin', scope: 'admin',
+    summary: '役割の剥奪',
+    body: { type: 'object', required: ['user_id', 'role'], properties: { user_id: UUID, role: { type: 'string', enum: ROLES } } }
+}), async (req, res) => {
+    try {
+        const { user_id, role } = req.body
+        if (!ROLES.includes(role)) throw new Error('役割が不正です')
+
+        // 自分自身の管理者権限は外せない (管理者不在を防ぐ)
+        if (role === 'admin' && user_id === req.user!.id) throw new Error('自分の管理者権限は外せません')
+        await prisma.$transaction(async (tx) => {
+            if (role === 'admin') {
+                await tx.user.update({ where: { id: user_id }, data: { is_admin: false } })
+            } else {
+                await tx.user_role.deleteMany({ where: { user_id, role } })
+            }
+            await recordAudit({ actorId: req.user!.id, action: 'revoke_role', entity: 'user', entityId: user_id, before: { role } }, tx)
+        })
+        res.status(200).json({ message: '削除しました' })
+    } catch (err: any) { res.status(400).json({ message: err.message || '削除失敗' }) }
+})
+
+
+// -----------------------------------------------------------
+// 7. ユーザー (User)
+// -----------------------------------------------------------
+
+// 一覧 GET (検索・ページング)
+router.get('/users', requireUserAdmin, apiOperation({
+    operationId: 'adminListUsers', method: 'get', path: '/admin/users', tag: 'admin', scope: 'admin',
+    summary: 'ユーザー一覧',
+    query: { q: { type: 'string', maxLength: 254, description: '名前・メールアドレスの部分一致' }, page: PAGE }
+}), async (req, res, next) => {
+    try {
+        const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+        let currentPage = parseInt(String(req.query.page || '1'), 10)
+        if (isNaN(currentPage) || currentPage < 1) currentPage = 1
+
+        const where = q ? { OR: [{ name: { contains: q } }, { email: { contains: q } }] } : {}
+        const totalCount = await prisma.user.count({ where })
+        const lastPage = Math.ceil(totalCount / USERS_PER_PAGE) || 1
+        if (currentPage > lastPage) currentPage = lastPage
+
+        const usersRaw = await prisma.user.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: USERS_PER_PAGE,
+            skip: (currentPage - 1) * USERS_PER_PAGE,
+            include: { _count: { select: { rentals: { where: { returned_date: null } } } } }
+        })
+
+        const users = usersRaw.map((user) => ({
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            is_admin: user.is_admin,
+            is_deleted: user.isDeleted,
+            created_at: user.createdAt,
+            open_loans: user._count.rentals
+        }))
+
+        const data = { current: currentPage, last_page: lastPage, q, users }
+        res.format({
+            html: () => res.render('admin/users', { title: 'ユーザー管理', data }),
+            json: () => res.json(data)
+        })
+    } catch (err) { next(err) }
+})
+
+// ロックが解けるまでの秒数 → 解ける日時
+function lockedUntil(seconds: number | null) {
+    return seconds === null ? null : new Date(Date.now() + seconds * 1000)
+}
+
+// 詳細 GET (貸出中の本・役割・延滞料・ログインのロック)
+router.get('/users/:id', requireUserAdmin, apiOperation({
+    operationId: 'adminGetUser', method: 'get', path: '/admin/users/{id}', tag: 'admin', scope: 'admin',
+    summary: 'ユーザー詳細',
+    params: { id: UUID }
+}), async (req, res, next) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.params.id } })
+        if (!user) {
+            const err: any = new Error('ユーザーが見つかりません')
+            err.status = 404
+            throw err
+        }
+
+        const rentals = await prisma.rental_log.findMany({
+            where: { user_id: user.id, returned_date: null },
+            orderBy: { checkout_date: 'asc' },
+            include: { book: true }
+        })
+        const loans = rentals.map((rental) => ({
+            id: rental.id,
+            book: {
+                isbn: rental.book_isbn.toString(),
+                title: rental.book.title
+            },
+            checkout_date: rental.checkout_date,
+            due_date: rental.due_date
+        }))
+
+        const detail = {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            is_admin: user.is_admin,
+            is_deleted: user.isDeleted,
+            created_at: user.createdAt,
+            roles: await getUserRoles(user.id),
+            fine_balance: await getFineBalance(user.id),
+            loans,
+            // ログイン失敗によるロック (locked_until はロック中の場合だけ)
+            locked_until: lockedUntil(await accountLockSeconds(user.email)),
+            lockouts: await listLockouts(user.id)
+        }
+
+        res.format({
+            html: () => res.render('admin/user', { title: `ユーザー: ${user.name}`, user: detail }),
+            json: () => res.json(detail)
+        })
+    } catch (err) { next(err) }
+})
+
+// 管理者権限の切り替え PUT
+router.put('/users/:id/admin', requireUserAdmin, apiOperation({
+    operationId: 'adminSetAdmin', method: 'put', path: '/admin/users/{id}/admin', tag: 'admin', scope: 'admin',
+    summary: '管理者権限の切り替え',
+    params: { id: UUID },
+    body: { type: 'object', required: ['is_admin'], properties: { is_admin: { type: 'boolean' } } }
+}), async (req, res) => {
+    try {
+        const isAdmin = req.body.is_admin === true || req.body.is_admin === 'true'
+        if (!isAdmin && req.params.id === req.user!.id) throw new Error('自分の管理者権限は外せません')
+
+        const updated = await prisma.$transaction(async (tx) => {
+            const before = await tx.user.findUnique({ where: { id: req.params.id } })
+            const after = await tx.user.update({ where: { id: req.params.id }, data: { is_admin: isAdmin } })
+            await recordAudit({
+                actorId: req.user!.id, action: 'update', entity: 'user', entityId: after.id,
+                before: { is_admin: before?.is_admin }, after: { is_admin: after.is_admin }
+            }, tx)
+            return after
+        })
+        res.status(200).json({ id: updated.id, is_admin: updated.is_admin })
+    } catch (err: any) { res.status(400).json({ message: err.message || '更新失敗' }) }
+})
+
+// ログインのロック解除 POST (失敗回数も消す)
+router.post('/users/:id/unlock', requireUserAdmin, apiOperation({
+    operationId: 'adminUnlockUser', method: 'post', path: '/admin/users/{id}/unlock', tag: 'admin', scope: 'admin',
+    summary: 'ログイン失敗によるロックの解除',
+    params: { id: UUID }
+}), async (req, res) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.params.id } })
+        if (!user) throw createError(404, 'ユーザーが見つかりません')
+
+        await unlockAccount(user, req.user!.id)
+        res.status(200).json({ message: 'ロックを解除しました' })
+    } catch (err: any) {
+        res.status(err.status || 400).json({ message: err.status ? err.message : 'ロック解除失敗' })
+    }
+})
+
+// 無効化 (論理削除) DELETE
+// 無効化されたユーザーはログインできず、既存のセッションも使えなくなる
+// session_epoch も増やし、復元したときに無効化前のセッションが使えるようにならないようにする
+router.delete('/users/:id', requireUserAdmin, apiOperation({
+    operationId: 'adminDeactivateUser', method: 'delete', path: '/admin/users/{id}', tag: 'admin', scope: 'admin',
+    summary: 'ユーザーの無効化',
+    params: { id: UUID }
+}), async (req, res) => {
+    try {
+        if (req.params.id === req.user!.id) throw new Error('自分自身は無効化できません')
+        await prisma.$transaction(async (tx) => {
+            const user = await tx.user.findUnique({ where: { id: req.params.id } })
+            if (!user) throw createError(404, 'ユーザーが見つかりません')
+            await tx.user.update({ where: { id: user.id }, data: { isDeleted: true, session_epoch: { increment: 1 } } })
+            await recordAudit({
+                actorId: req.user!.id, action: 'deactivate', entity: 'user', entityId: user.id,
+                before: { isDeleted: user.isDeleted }, after: { isDeleted: true }
+            }, tx)
+        })
+        await revokeAllSessions(req.params.id)
+        res.status(200).json({ message: '無効化しました' })
+    } catch (err: any) { res.status(err.status || 400).json({ message: err.message || '無効化失敗' }) }
+})
+
+// 復元 PUT
+router.put('/users/:id/restore', requireUserAdmin, apiOperation({
+    operationId: 'adminRestoreUser', method: 'put', path: '/admin/users/{id}/restore', tag: 'admin', scope: 'admin',
+    summary: 'ユーザーの復元',
+    params: { id: UUID }
+}), async (req, res) => {
+    try {
+        await prisma.$transaction(async (tx) => {
+            const user = await tx.user.findUnique({ where: { id: req.params.id } })
+            if (!user) throw createError(404, 'ユーザーが見つかりません')
+            await tx.user.update({ where: { id: user.id }, data: { isDeleted: false } })
+            await recordAudit({
+                actorId: req.user!.id, action: 'restore', entity: 'user', entityId: user.id,
+                before: { isDeleted: user.isDeleted }, after: { isDeleted: false }
+            }, tx)
+        })
+        res.status(200).json({ message: '復元しました' })
+    } catch (err: any) { res.status(err.status || 400).json({ message: err.message || '復元失敗' }) }
+})
+
+
+// -----------------------------------------------------------
+// 8. カウンター (Counter) - 利用者の代わりに貸出・返却する
+// -----------------------------------------------------------
+
+// メールアドレスから利用者を探す (無効化済みは除く)
+async function findPatron(email: unknown) {
+    const patron = typeof email === 'string' && email.trim()
+        ? await prisma.user.findUnique({ where: { email: email.trim() } })
+        : null
+    if (!patron || patron.isDeleted) {
+        throw createError(404, '利用者が見つかりません')
+    }
+    return patron
+}
+
+// カウンター画面 GET (email 指定で利用者の貸出状況を表示)
+router.get('/counter', requireLoan, apiOperation({
+    operationId: 'adminCounter', method: 'get', path: '/admin/counter', tag: 'admin', scope: 'admin',
+    summary: '利用者の貸出状況 (カウンター)',
+    query: { email: { type: 'string', maxLength: 254 } }
+}), async (req, res, next) => {
+    try {
+        const email = typeof req.query.email === 'string' ? req.query.email.trim() : ''
+        let patron = null
+        let error = null
+
+        if (email) {
+            const user = await prisma.user.findUnique({ where: { email } })
+            if (!user || user.isDeleted) {
+                error = '利用者が見つかりません'
+            } else {
+                const rentals = await prisma.rental_log.findMany({
+                    where: { user_id: user.id, returned_date: null },
+                    orderBy: { checkout_date: 'asc' },
+                    include: { book: true, copy: true }
+                })
+                const loans = rentals.map((rental) => ({
+                    id: rental.id,
+                    book: {
+                        isbn: rental.book_isbn.toString(),
+                        title: rental.book.title
+                    },
+                    barcode: rental.copy.barcode,
+                    checkout_date: rental.checkout_date,
+                    due_date: rental.due_date,
+                    is_overdue: isOverdue(rental)
+                }))
+                patron = {
+                    id: user.id,
+                    name: user.name,
+                    email: user.email,
+                    fine_balance: await getFineBalance(user.id),
+                    loans
+                }
+            }
+        }
+
+        res.format({
+            html: () => res.render('admin/counter', { title: 'カウンター', email, patron, error }),
+            json: () => error ? res.status(404).json({ message: error }) : res.json({ patron })
+        })
+    } catch (err) { next(err) }
+})
+
+// 貸出 POST {email, isbn, barcode?}
+router.post('/counter/checkout', requireLoan, apiOperation({
+    operationId: 'adminCounterCheckout', method: 'post', path: '/admin/counter/checkout', tag: 'admin', scope: 'admin',
+    summary: '利用者の代わりに貸出',
+    body: {
+        type: 'object',
+        required: ['email', 'isbn'],
+        properties: { email: EMAIL, isbn: ISBN, barcode: { type: 'string', maxLength: 64 } }
+    }
+}), async (req, res) => {
+    try {
+        const patron = await findPatron(req.body.email)
+        const isbn = parseIsbn(req.body.isbn)
+        if (isbn === null) throw createError(400, 'ISBNの形式が正しくありません')
+
+        const { rental, copy, book } = await checkoutBook({
+            userId: patron.id,
+            isbn,
+            barcode: req.body.barcode || undefined,
+            staffId: req.user!.id,
+            actorId: req.user!.id
+        })
+
+        res.status(200).json({
+            id: rental.id,
+            user: { name: patron.name, email: patron.email },
+            book: { isbn: isbn.toString(), title: book.title },
+            barcode: copy.barcode,
+            due_date: rental.due_date
+        })
+    } catch (err: any) {
+        if (!err.status) console.error(err)
+        res.status(err.status || 500).json({ message: err.status ? err.message : 'サーバーエラーが発生しました' })
+    }
+})
+
+// 返却 POST {barcode} または {email, isbn}
+router.post('/counter/checkin', requireLoan, apiOperation({
+    operationId: 'adminCounterCheckin', method: 'post', path: '/admin/counter/checkin', tag: 'admin', scope: 'admin',
+    summary: '返却 (barcode、または email と isbn で指定)',
+    body: {
+        type: 'object',
+        properties: { barcode: { type: 'string', maxLength: 64 }, email: EMAIL, isbn: ISBN }
+    }
+}), async (req, res) => {
+    try {
+        let rental = null
+        if (req.body.barcode) {
+            // バーコードから所蔵を特定
+            const copy = await prisma.book_copy.findUnique({ where: { barcode: String(req.body.barcode).trim() } })
+            if (copy) {
+                rental = await prisma.rental_log.findFirst({
+                    where: { copy_id: copy.id, returned_date: null }
+                })
+            }
+        } else {
+            // 利用者とISBNから特定
+            const patron = await findPatron(req.body.email)
+            const isbn = parseIsbn(req.body.isbn)
+            if (isbn === null) throw createError(400, 'ISBNの形式が正しくありません')
+            rental = await prisma.rental_log.findFirst({
+                where: { user_id: patron.id, book_isbn: isbn, returned_date: null }
+            })
+        }
+        if (!rental) throw createError(404, '貸出中の記録が見つかりません')
+
+        const result = await returnRental(rental.id, { staffId: req.user!.id, actorId: req.user!.id })
+        res.status(200).json({
+            id: result.rental.id,
+            returned_date: result.rental.returned_date,
+            fine: result.fine
+        })
+    } catch (err: any) {
+        if (!err.status) console.error(err)
+        res.status(err.status || 500).json({ message: err.status ? err.message : 'サーバーエラーが発生しました' })
+    }
+})
+
+// 強制返却 POST {rental_id} - 連絡の取れない利用者の貸出を締める
+router.post('/counter/force-return', requireLoan, apiOperation({
+    operationId: 'adminForceReturn', method: 'post', path: '/admin/counter/force-return', tag: 'admin', scope: 'admin',
+    summary: '強制返却',
+    body: { type: 'object', required: ['rental_id'], properties: { rental_id: UUID } }
+}), async (req, res) => {
+    try {
+        const result = await returnRental(req.body.rental_id, {
+            staffId: req.user!.id,
+            forced: true,
+            actorId: req.user!.id
+        })
+        res.status(200).json({
+            id: result.rental.id,
+            returned_date: result.rental.returned_date,
+            fine: result.fine
+        })
+    } catch (err: any) {
+        if (!err.status) console.error(err)
+        res.status(err.status || 500).json({ message: err.status ? err.message : 'サーバーエラーが発生しました' })
+    }
+})
+
+
+// -----------------------------------------------------------
+// 9. 監査ログ (Audit)
+// -----------------------------------------------------------
+
+// 一覧 GET (entity, action, actor(メール), entity_id, from, to で絞り込み)
+router.get('/audit', requireUserAdmin, apiOperation({
+    operationId: 'adminListAudit', method: 'get', path: '/admin/audit', tag: 'admin', scope: 'admin',
+    summary: '監査ログ',
+    query: {
+        entity: { type: 'string', maxLength: 32 },
+        action: { type: 'string', maxLength: 32 },
+        actor: { type: 'string', maxLength: 254, description: '操作者のメールアドレス' },
+        entity_id: { type: 'string', maxLength: 64 },
+        from: { type: 'string', format: 'date' },
+        to: { type: 'string', format: 'date' },
+        page: PAGE
+    }
+}), async (req, res, next) => {
+    try {
+        const str = (v: unknown) => typeof v === 'string' ? v.trim() : ''
+        const filters = {
+            entity: str(req.query.entity),
+            action: str(req.query.action),
+            actor: str(req.query.actor),
+            entity_id: str(req.query.entity_id),
+            from: str(req.query.from),
+            to: str(req.query.to)
+        }
+        let currentPage = parseInt(String(req.query.page || '1'), 10)
+        if (isNaN(currentPage) || currentPage < 1) currentPage = 1
+
+        const where: Prisma.audit_logWhereInput = {}
+        if (filters.entity) where.entity = filters.entity
+        if (filters.action) where.action = filters.action
+        if (filters.entity_id) where.entity_id = filters.entity_id
+        if (filters.actor) {
+            const actor = await prisma.user.findUnique({ where: { email: filters.actor } })
+            where.actor_id = actor ? actor.id : ''
+        }
+        if (filters.from || filters.to) {
+            const createdAt: Prisma.DateTimeFilter = {}
+            const from = new Date(filters.from)
+            const to = new Date(filters.to)
+            if (filters.from && !isNaN(from.getTime())) createdAt.gte = from
+            // 終了日はその日の終わりまで含める
+            if (filters.to && !isNaN(to.getTime())) {
+                to.setDate(to.getDate() + 1)
+                createdAt.lt = to
+            }
+            where.createdAt = createdAt
+        }
+
+        const totalCount = await prisma.audit_log.count({ where })
+        const lastPage = Math.ceil(totalCount / AUDIT_PER_PAGE) || 1
+        if (currentPage > lastPage) currentPage = lastPage
+
+        const logs = await prisma.audit_log.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: AUDIT_PER_PAGE,
+            skip: (currentPage - 1) * AUDIT_PER_PAGE
+        })
+
+        // 操作者の名前を付ける
+        const actorIds = [...new Set(logs.map((log) => log.actor_id).filter(Boolean))] as string[]
+        const actors = await prisma.user.findMany({
+            where: { id: { in: actorIds } },
+            select: { id: true, name: true, email: true }
+        })
+        const actorMap = new Map(actors.map((a) => [a.id, a]))
+
+        const entries = logs.map((log) => {
+            const actor = log.actor_id ? actorMap.get(log.actor_id) : undefined
+            return {
+                id: log.id,
+                actor: actor ? { id: actor.id, name: actor.name, email: actor.email } : null,
+                action: log.action,
+                entity: log.entity,
+                entity_id: log.entity_id,
+                before: log.before,
+                after: log.after,
+                created_at: log.createdAt
+            }
+        })
+
+        const data = { current: currentPage, last_page: lastPage, total: totalCount, filters, entries }
+        res.format({
+            html: () => res.render('admin/audit', { title: '監査ログ', data }),
+            json: () => res.json(data)
+        })
+    } catch (err) { next(err) }
+})
+
+
+// 参照切れの記録 GET (外部キー追加時のマイグレーションで見つかったもの)
+router.get('/orphans', requireUserAdmin, apiOperation({
+    operationId: 'adminListOrphans', method: 'get', path: '/admin/orphans', tag: 'admin', scope: 'admin',
+    summary: '参照切れの記録 (移行時に修正したもの)'
+}), async (req, res, next) => {
+    try {
+        const orphans = await prisma.orphan_report.findMany({
+            orderBy: [{ table_name: 'asc' }, { column_name: 'asc' }, { id: 'asc' }]
+        })
+        res.format({
+            html: () => res.render('admin/orphans', { title: '参照切れの記録', orphans }),
+            json: () => res.json({ orphans })
+        })
+    } catch (err) { next(err) }
+})
+
+// -----------------------------------------------------------
+// 10. ゴミ箱 (Trash) - 論理削除したデータの復元・完全削除
+// -----------------------------------------------------------
+
+// URLの種類名を検証する (不正なら404)
+function trashEntity(entity: string) {
+    if (!Object.hasOwn(TRASH_ENTITIES, entity)) throw createError(404, '種類が不正です')
+    return entity as 'author' | 'publisher' | 'book'
+}
+
+// 削除済みの1件を取得する (存在しない・削除されていなければ404)
+async function findTrashed(entity: 'author' | 'publisher' | 'book', id: string) {
+    let record: any = null
+    if (entity === 'book') {
+        const isbn = parseIsbn(id)
+        record = isbn === null ? null : await prisma.book.findUnique({ where: { isbn } })
+    } else if (entity === 'author') {
+        record = await prisma.author.findUnique({ where: { id } })
+    } else {
+        record = await prisma.publisher.findUnique({ where: { id } })
+    }
+    if (!record || !record.isDeleted) throw createError(404, 'ゴミ箱にありません')
+    return record
+}
+
+// 監査ログの entity_id (書籍は入力の形によらず正規化した ISBN にそろえる)
+function trashId(entity: 'author' | 'publisher' | 'book', record: any) {
+    return entity === 'book' ? String(record.isbn) : record.id
+}
+
+// 一覧 GET
+router.get('/trash/:entity', requireCatalog, apiOperation({
+    operationId: 'adminListTrash', method: 'get', path: '/admin/trash/{entity}', tag: 'admin', scope: 'admin',
+    summary: 'ゴミ箱の一覧',
+    params: TRASH_PARAMS
+}), async (req, res, next) => {
+    try {
+        const entity = trashEntity(req.params.entity)
+
+        let items: { id: string, name: string, references: number, deleted_at?: Date | null }[]
+        if (entity === 'book') {
+            const books = await prisma.book.findMany({
+                where: { isDeleted: true },
+                orderBy: { title: 'asc' },
+                include: { _count: { select: { rentals: true, reservations: true } } }
+            })
+            items = books.map((book) => ({
+                id: book.isbn.toString(),
+                name: book.title,
+                // 完全削除できない理由 (貸出・予約の記録)
+                references: book._count.rentals + book._count.reservations
+            }))
+        } else if (entity === 'author') {
+            const authors = await prisma.author.findMany({
+                where: { isDeleted: true },
+                orderBy: { name: 'asc' },
+                include: { _count: { select: { contributions: true } } }
+            })
+            items = authors.map((author) => ({
+                id: author.id,
+                name: author.name,
+                references: author._count.contributions
+            }))
+        } else {
+            const publishers = await prisma.publisher.findMany({
+                where: { isDeleted: true },
+                orderBy: { name: 'asc' },
+                include: { _count: { select: { books: true } } }
+            })
+            items = publishers.map((publisher) => ({
+                id: publisher.id,
+                name: publisher.name,
+                references: publisher._count.books
+            }))
+        }
+
+        // 削除日時は監査ログから引く
+        const logs = await prisma.audit_log.findMany({
+            where: { entity, action: 'delete', entity_id: { in: items.map(item => item.id) } },
+            orderBy: { createdAt: 'desc' }
+        })
+        for (const item of items) {
+            const log = logs.find((l) => l.entity_id === item.id)
+            item.deleted_at = log ? log.createdAt : null
+        }
+
+        res.format({
+            html: () => res.render('admin/trash', { title: `ゴミ箱 (${TRASH_ENTITIES[entity]})`, entity, entities: TRASH_ENTITIES, items }),
+            json: () => res.json({ entity, items })
+        })
+    } catch (err) { next(err) }
+})
+
+// 復元 PUT {id}
+router.put('/trash/:entity', requireCatalog, apiOperation({
+    operationId: 'adminRestoreTrash', method: 'put', path: '/admin/trash/{entity}', tag: 'admin', scope: 'admin',
+    summary: 'ゴミ箱から復元',
+    params: TRASH_PARAMS,
+    body: TRASH_BODY
+}), async (req, res) => {
+    try {
+        const entity = trashEntity(req.params.entity)
+        const before = await findTrashed(entity, String(req.body.id ?? ''))
+
+        if (entity === 'book') {
+            // 著者・出版社がゴミ箱にある書籍は、先にそちらを復元してもらう
+            const [deletedAuthors, publisher] = await Promise.all([
+                prisma.author.count({ where: { isDeleted: true, contributions: { some: { book_isbn: before.isbn } } } }),
+                prisma.publisher.findUnique({ where: { id: before.publisher_id } })
+            ])
+            if (deletedAuthors > 0) throw createError(409, '著者が削除されています。先に著者を復元してください')
+            if (!publisher || publisher.isDeleted) throw createError(409, '出版社が削除されています。先に出版社を復元してください')
+        }
+        await prisma.$transaction(async (tx) => {
+            let after
+            if (entity === 'book') {
+                after = await tx.book.update({ where: { isbn: before.isbn }, data: { isDeleted: false } })
+            } else if (entity === 'author') {
+                after = await tx.author.update({ where: { id: before.id }, data: { isDeleted: false } })
+            } else {
+                after = await tx.publisher.update({ where: { id: before.id }, data: { isDeleted: false } })
+            }
+            await recordAudit({ actorId: req.user!.id, action: 'restore', entity, entityId: trashId(entity, before), before, after }, tx)
+        })
+
+        res.status(200).json({ message: '復元しました' })
+    } catch (err: any) {
+        res.status(err.status || 400).json({ message: err.status ? err.message : '復元失敗' })
+    }
+})
+
+// 完全削除 DELETE {id}
+// 貸出記録や書籍から参照されているものは削除できない
+router.delete('/trash/:entity', requireCatalog, apiOperation({
+    operationId: 'adminPurgeTrash', method: 'delete', path: '/admin/trash/{entity}', tag: 'admin', scope: 'admin',
+    summary: 'ゴミ箱から完全削除',
+    params: TRASH_PARAMS,
+    body: TRASH_BODY
+}), async (req, res) => {
+    try {
+        const entity = trashEntity(req.params.entity)
+        const before = await findTrashed(entity, String(req.body.id ?? ''))
+
+        if (entity === 'book') {
+            const [rentals, reservations] = await Promise.all([
+                prisma.rental_log.count({ where: { book_isbn: before.isbn } }),
+                prisma.reservation.count({ where: { book_isbn: before.isbn } })
+            ])
+            if (rentals > 0) throw createError(409, `貸出記録(${rentals}件)があるため完全削除できません`)
+            if (reservations > 0) throw createError(409, `予約記録(${reservations}件)があるため完全削除できません`)
+
+        } else {
+            const books = entity === 'author'
+                ? await prisma.book.count({ where: { contributors: { some: { author_id: before.id } } } })
+                : await prisma.book.count({ where: { publisher_id: before.id } })
+            if (books > 0) throw createError(409, `${books}冊の書籍(削除済みを含む)で使われているため完全削除できません`)
+        }
+
+        await prisma.$transaction(async (tx) => {
+            if (entity === 'book') {
+                // 所蔵も一緒に削除する
+                await tx.book_copy.deleteMany({ where: { book_isbn: before.isbn } })
+                await tx.book.delete({ where: { isbn: before.isbn } })
+            } else if (entity === 'author') {
+                await tx.author.delete({ where: { id: before.id } })
+            } else {
+                await tx.publisher.delete({ where: { id: before.id } })
+            }
+            await recordAudit({ actorId: req.user!.id, action: 'purge', entity, entityId: trashId(entity, before), before }, tx)
+        })
+        if (entity === 'book' && before.cover_file) await removeCover(before.cover_file)
+
+        res.status(200).json({ message: '完全に削除しました' })
+    } catch (err: any) {
+        res.status(err.status || 400).json({ message: err.status ? err.message : '削除失敗' })
     }
 })
 
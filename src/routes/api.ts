@@ -0,0 +1,14 @@
+import { Router } from 'express'
+import { buildOpenApiDocument } from '../libs/openapi.js'
+
+const router = Router()
+
+// ==========================================
+// API仕様 (GET /api/openapi.json)
+// ==========================================
+// 各ルートで apiOperation() に書いた仕様をまとめて返す
+router.get('/openapi.json', (req, res) => {
+    res.json(buildOpenApiDocument())
+})
+
+export default router
@@ -0,0 +1,73 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { PrismaClient } from '@prisma/client'
+import { findShelfPage } from '../libs/shelf.js'
+import { acceptToken } from '../libs/auth.js'
+import { apiOperation, PAGE, UUID } from '../libs/openapi.js'
+
+const router = Router()
+const prisma = new PrismaClient()
+
+// ==========================================
+// 著者詳細 (GET /author/:id?page=N) API & View
+// ==========================================
+router.get('/:id', acceptToken('catalog:read'), apiOperation({
+    operationId: 'getAuthor', method: 'get', path: '/author/{id}', tag: 'catalog',
+    summary: '著者と書籍一覧', login: false, scope: 'catalog:read',
+    params: { id: UUID },
+    query: { page: PAGE }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // 1. 著者検索 (削除済みは表示しない)
+        const author = await prisma.author.findUnique({
+            where: { id: req.params.id }
+        })
+
+        if (!author || author.isDeleted) {
+            const err: any = new Error('著者が見つかりません')
+            err.status = 404
+            throw err
+        }
+
+        // 2. 関わった書籍 (削除されていないもの) を貸出状況付きで取得
+        const page = parseInt(String(req.query.page || '1'), 10) || 1
+        const shelf = await findShelfPage({
+            where: { contributors: { some: { author_id: author.id } } },
+            page
+        })
+
+        // この人の役割 (著・訳など) を書籍ごとに付ける
+        const books = shelf.books.map((book) => ({
+            ...book,
+            roles: book.contributors
+                .filter((c) => c.id === author.id)
+                .map((c) => c.role_label)
+        }))
+
+        // 3. データ整形
+        const detailData = {
+            id: author.id,
+            name: author.name,
+            current: shelf.current,
+            last_page: shelf.last_page,
+            total: shelf.total,
+            books: books
+        }
+
+        res.format({
+            html: () => {
+                res.render('author/detail', {
+                    title: `著者: ${author.name}`,
+                    author: detailData
+                })
+            },
+            json: () => {
+                res.json(detailData)
+            }
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+export default router
@@ -1,86 +1,176 @@
 import { Router, Request, Response, NextFunction } from 'express'
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { cancelReservation, findActiveHolds, queuePosition, reserveBook } from '../libs/reservation.js'
+import { countCopies } from '../libs/copy.js'
+import { parseIsbn } from '../libs/isbn.js'
+import { hasPermission } from '../libs/permission.js'
+import { checkoutBook } from '../libs/loan.js'
+import { contributorSummary, formatContributors } from '../libs/contributor.js'
+import { formatTags, languageLabel } from '../libs/metadata.js'
+import { coverThumbnail, thumbWidth } from '../libs/cover.js'
+import { acceptToken, requireVerifiedEmail, userAllows } from '../libs/auth.js'
+import { apiOperation, ISBN, JsonSchema, PAGE, UUID } from '../libs/openapi.js'
+import { SEARCH_LIMIT_DEFAULT, SEARCH_LIMIT_MAX, searchNames } from '../libs/search.js'
 
 const router = Router()
 const prisma = new PrismaClient()
 const ITEMS_PER_PAGE = 5
 
+// 検索条件 (クエリ文字列)
+const SEARCH_QUERY: { [name: string]: JsonSchema } = {
+    q: { type: 'string', maxLength: 128, description: '名前の一部 (全角/半角・カタカナ/ひらがなの違いは無視)' },
+    limit: { type: 'integer', minimum: 1, maximum: SEARCH_LIMIT_MAX, default: SEARCH_LIMIT_DEFAULT },
+    offset: { type: 'integer', minimum: 0, default: 0 }
+}
+
 // ==========================================
-// 0. 検索機能 API & 中継
+// 0. 著者・出版社の検索 API (入力補完用)
 // ==========================================
 
-// 仕様通りのAPI (GET + JSON Body) - テスト用
-router.get('/search/author', async (req: Request, res: Response) => {
+// GET /book/search/author?q=...&limit=20&offset=0
+// 前方一致を先に、その後に部分一致を返す
+router.get('/search/author', acceptToken('catalog:read'), apiOperation({
+    operationId: 'searchAuthors', method: 'get', path: '/book/search/author', tag: 'catalog',
+    summary: '著者名の検索 (前方一致を優先)', login: false, scope: 'catalog:read',
+    query: SEARCH_QUERY
+}), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const keyword = req.body.keyword || ''
-        const authors = await prisma.author.findMany({
-            where: {
-                isDeleted: false,
-                name: { contains: keyword } // 部分一致検索
-            },
-            select: { id: true, name: true }
-        })
-        res.json({ authors })
-    } catch (e) {
-        res.status(500).json({ message: 'Error' })
-    }
+        const { items, total, limit, offset } = await searchNames('author', String(req.query.q ?? ''), searchPaging(req))
+        res.json({ authors: items, total, limit, offset })
+    } catch (err) { next(err) }
 })
 
-router.get('/search/publisher', async (req: Request, res: Response) => {
+router.get('/search/publisher', acceptToken('catalog:read'), apiOperation({
+    operationId: 'searchPublishers', method: 'get', path: '/book/search/publisher', tag: 'catalog',
+    summary: '出版社名の検索 (前方一致を優先)', login: false, scope: 'catalog:read',
+    query: SEARCH_QUERY
+}), async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const keyword = req.body.keyword || ''
-        const publishers = await prisma.publisher.findMany({
-            where: {
-                isDeleted: false,
-                name: { contains: keyword }
-            },
-            select: { id: true, name: true }
-        })
-        res.json({ publishers })
-    } catch (e) {
-        res.status(500).json({ message: 'Error' })
-    }
+        const { items, total, limit, offset } = await searchNames('publisher', String(req.query.q ?? ''), searchPaging(req))
+        res.json({ publishers: items, total, limit, offset })
+    } catch (err) { next(err) }
 })
 
+// limit / offset (チェック済みだが req.query は文字列のまま)
+function searchPaging(req: Request) {
+    return {
+        limit: req.query.limit ? Number(req.query.limit) : SEARCH_LIMIT_DEFAULT,
+        offset: req.query.offset ? Number(req.query.offset) : 0
+    }
+}
 
-// ★画面(JS)から呼ぶためのブリッジAPI (POSTでパラメータ受け取り)
-// ブラウザからはこちらを叩きます
-router.post('/search/internal', async (req: Request, res: Response) => {
-    try {
-        const { type, keyword } = req.body
 
-        if (type === 'author') {
-            const authors = await prisma.author.findMany({
-                where: { isDeleted: false, name: { contains: keyword } },
-                select: { id: true, name: true }
-            })
-            return res.json({ type: 'author', results: authors })
+// ==========================================
+// 1. 書籍一覧機能 (GET /book/list)
+// ==========================================
 
-        } else if (type === 'publisher') {
-            const publishers = await prisma.publisher.findMany({
-                where: { isDeleted: false, name: { contains: keyword } },
-                select: { id: true, name: true }
-            })
-            return res.json({ type: 'publisher', results: publishers })
+// 絞り込み条件 (クエリ文字列)
+const LIST_QUERY: { [name: string]: JsonSchema } = {
+    q: { type: 'string', maxLength: 128, description: '書名・著者/訳者などの名前・出版社名・ISBN' },
+    year_from: { type: 'integer', minimum: 0, maximum: 9999 },
+    year_to: { type: 'integer', minimum: 0, maximum: 9999 },
+    publisher_id: UUID,
+    tag: { type: 'string', maxLength: 64 },
+    available: { type: 'boolean', description: '貸出可能なものだけ' },
+    sort: { type: 'string', enum: ['newest', 'oldest', 'title'] }
+}
+
+// (A) ページ指定あり
+router.get('/list/:page', acceptToken('catalog:read'), apiOperation({
+    operationId: 'listBooksPage', method: 'get', path: '/book/list/{page}', tag: 'catalog',
+    summary: '書籍一覧 (ページ指定)', login: false, scope: 'catalog:read',
+    params: { page: PAGE },
+    query: LIST_QUERY
+}), handleListRequest)
+// (B) ページ指定なし（デフォルト1ページ目）
+router.get('/list', acceptToken('catalog:read'), apiOperation({
+    operationId: 'listBooks', method: 'get', path: '/book/list', tag: 'catalog',
+    summary: '書籍一覧', login: false, scope: 'catalog:read',
+    query: LIST_QUERY
+}), handleListRequest)
+
+// 並び順の指定
+const SORT_OPTIONS: { [key: string]: Prisma.bookOrderByWithRelationInput[] } = {
+    newest: [{ publication_year: 'desc' }, { publication_month: 'desc' }],
+    oldest: [{ publication_year: 'asc' }, { publication_month: 'asc' }],
+    title: [{ title: 'asc' }]
+}
+
+// 一覧の検索条件をクエリ文字列から組み立てる
+// 使った条件は filters として返し、ページ送りのリンクに引き継ぐ
+async function buildListFilter(query: any) {
+    const filters: { [key: string]: string } = {}
+    const conditions: Prisma.bookWhereInput[] = [{ isDeleted: false }]
+
+    // キーワード (書名・著者/訳者などの名前・出版社名・ISBN)
+    const q = typeof query.q === 'string' ? query.q.trim() : ''
+    if (q) {
+        filters.q = q
+        const keywordConditions: Prisma.bookWhereInput[] = [
+            { title: { contains: q } },
+            { contributors: { some: { author: { isDeleted: false, name: { contains: q } } } } },
+            { publisher: { isDeleted: false, name: { contains: q } } }
+        ]
+        const isbn = parseIsbn(q)
+        if (isbn !== null) {
+            keywordConditions.push({ isbn: isbn })
         }
+        conditions.push({ OR: keywordConditions })
+    }
 
-        res.status(400).json({ message: 'Invalid type' })
+    // 出版年の範囲
+    const yearFrom = parseInt(query.year_from, 10)
+    if (!isNaN(yearFrom)) {
+        filters.year_from = String(yearFrom)
+        conditions.push({ publication_year: { gte: yearFrom } })
+    }
+    const yearTo = parseInt(query.year_to, 10)
+    if (!isNaN(yearTo)) {
+        filters.year_to = String(yearTo)
+        conditions.push({ publication_year: { lte: yearTo } })
+    }
 
-    } catch (e) {
-        console.error(e)
-        res.status(500).json({ message: 'Internal Server Error' })
+    // 出版社
+    if (typeof query.publisher_id === 'string' && query.publisher_id) {
+        filters.publisher_id = query.publisher_id
+        conditions.push({ publisher_id: query.publisher_id })
     }
-})
 
+    // 主題・タグ
+    if (typeof query.tag === 'string' && query.tag.trim()) {
+        filters.tag = query.tag.trim()
+        conditions.push({ tags: { some: { tag: { name: filters.tag } } } })
+    }
 
-// ==========================================
-// 1. 書籍一覧機能 (GET /book/list)
-// ==========================================
+    // 貸出可能 (貸出中でない所蔵がある) ものだけ
+    if (query.available === '1' || query.available === 'true') {
+        filters.available = '1'
+        conditions.push({
+            copies: {
+                some: {
+                    isRetired: false,
+                    rentals: { none: { returned_date: null } }
+                }
+            }
+        })
+    }
 
-// (A) ページ指定あり
-router.get('/list/:page', handleListRequest)
-// (B) ページ指定なし（デフォルト1ページ目）
-router.get('/list', handleListRequest)
+    // 並び順
+    let sort = 'newest'
+    if (typeof query.sort === 'string' && SORT_OPTIONS[query.sort]) {
+        sort = query.sort
+        if (sort !== 'newest') {
+            filters.sort = sort
+        }
+    }
+
+    return {
+        where: { AND: conditions },
+        orderBy: SORT_OPTIONS[sort],
+        filters,
+        sort
+    }
+}
 
 // 共通処理関数
 async function handleListRequest(req: Request, res: Response, next: NextFunction) {
@@ -92,8 +182,12 @@ async function handleListRequest(req: Request, res: Response, next: NextFunction
             currentPage = 1
         }
 
+        const { where, orderBy, filters, sort } = await buildListFilter(req.query)
+        const queryString = new URLSearchParams(filters).toString()
+        const suffix = queryString ? `?${queryString}` : ''
+
         const totalCount = await prisma.book.count({
-            where: { isDeleted: false }
+            where: where
         })
         const lastPage = Math.ceil(totalCount / ITEMS_PER_PAGE) || 1
 
@@ -102,29 +196,48 @@ async function handleListRequest(req: Request, res: Response, next: NextFunction
         }
 
         const booksRaw = await prisma.book.findMany({
-            where: { isDeleted: false },
+            where: where,
             take: ITEMS_PER_PAGE,
             skip: (currentPage - 1) * ITEMS_PER_PAGE,
-            orderBy: [
-                { publication_year: 'desc' },
-                { publication_month: 'desc' }
-            ]
+            orderBy: orderBy,
+            include: { contributors: { include: { author: true } }, tags: { include: { tag: true } } }
         })
 
-        const books = await Promise.all(booksRaw.map(async (book: any) => {
-            const author = await prisma.author.findUnique({
-                where: { id: book.author_id }
-            })
+        const books = booksRaw.map((book) => {
+            const contributors = formatContributors(book.contributors)
             return {
                 isbn: book.isbn.toString(),
                 title: book.title,
+                // 従来のクライアント向け (役割を付けた全員の名前)
                 author: {
-                    name: author ? author.name : '不明な著者'
+                    name: contributorSummary(contributors)
                 },
-                publication_year_month: `${book.publication_year}.${book.publication_month}`
+                contributors: contributors,
+                publication_year_month: `${book.publication_year}.${book.publication_month}`,
+                tags: formatTags(book.tags),
+                cover_url: book.cover_file ? `/book/${book.isbn}/cover` : null
             }
-        }))
+        })
+
+        // 検索条件を引き継いだページ送りのリンク
+        const links = {
+            prev: currentPage > 1 ? `/book/list/${currentPage - 1}${suffix}` : null,
+            next: currentPage < lastPage ? `/book/list/${currentPage + 1}${suffix}` : null
+        }
 
+        // 絞り込みフォーム用の出版社リスト
+        const publishers = await prisma.publisher.findMany({
+            where: { isDeleted: false },
+            orderBy: { name: 'asc' }
+        })
+
+        // タグから探すためのリスト (削除されていない書籍に付いているもの)
+        const tagsRaw = await prisma.tag.findMany({
+            where: { books: { some: { book: { isDeleted: false } } } },
+            include: { _count: { select: { books: { where: { book: { isDeleted: false } } } } } },
+            orderBy: { name: 'asc' }
+        })
+        const tags = tagsRaw.map((tag) => ({ name: tag.name, count: tag._count.books }))
 
         res.format({
             // ブラウザ（画面が見たい人）用
@@ -134,8 +247,13 @@ async function handleListRequest(req: Request, res: Response, next: NextFunction
                     data: {
                         current: currentPage,
                         last_page: lastPage,
-                        books: books
-                    }
+                        total: totalCount,
+                        books: books,
+                        filters: { ...filters, sort },
+                        links: links
+                    },
+                    publishers: publishers,
+                    tags: tags
                 })
             },
             // APIクライアント（curl等、JSONが欲しい人）用
@@ -143,6 +261,9 @@ async function handleListRequest(req: Request, res: Response, next: NextFunction
                 res.json({
                     current: currentPage,
                     last_page: lastPage,
+                    total: totalCount,
+                    filters: filters,
+                    links: links,
                     books: books
                 })
             }
@@ -156,68 +277,69 @@ async function handleListRequest(req: Request, res: Response, next: NextFunction
 // ==========================================
 // 2. 貸出機能 (POST /book/rental)
 // ==========================================
-router.post('/rental', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/rental', acceptToken('loan:own'), apiOperation({
+    operationId: 'checkoutBook', method: 'post', path: '/book/rental', tag: 'loan',
+    summary: '貸出', scope: 'loan:own',
+    body: {
+        type: 'object',
+        required: ['book_id'],
+        properties: {
+            book_id: ISBN,
+            barcode: { type: 'string', maxLength: 64, description: '借りる所蔵 (省略時は空いているもの)' },
+            user_id: { ...UUID, description: '司書が利用者の代わりに借りる場合' }
+        }
+    }
+}), requireVerifiedEmail, async (req: Request, res: Response, next: NextFunction) => {
     // ログインしていなければエラー
     if (!req.user) {
         return res.status(401).json({ message: "ログインしてください" })
     }
 
     try {
-        const bookId = req.body.book_id // ISBN
-
-        // BigInt型変換でのエラーを防ぐため文字変換などを確認
-        let isbn: bigint
-        try {
-            isbn = BigInt(bookId)
-        } catch {
-            return res.status(400).json({ message: "ISBNの形式が正しくありません" })
-        }
-
-        // 1. 書籍が存在するか確認 (404 check)
-        const book = await prisma.book.findUnique({
-            where: { isbn: isbn }
-        })
-
-        if (!book) {
-            return res.status(404).json({ message: "書籍が存在しません" })
+        // 借りる人 (司書は user_id を指定して利用者の代わりに貸出できる)
+        // トークンの場合は admin スコープも必要
+        let userId = req.user.id
+        if (req.body.user_id && req.body.user_id !== userId) {
+            if (!userAllows(req.user, 'admin') || !await hasPermission(userId, 'loan:manage')) {
+                return res.status(403).json({ message: "他のユーザの貸出はできません" })
+            }
+            const patron = await prisma.user.findUnique({ where: { id: req.body.user_id } })
+            if (!patron || patron.isDeleted) {
+                return res.status(404).json({ message: "ユーザが存在しません" })
+            }
+            userId = patron.id
         }
 
-        // 2. 既に貸出中か確認 (409 check)
-        // returned_date が null (まだ返却していない) データがあるか探す
-        const rental = await prisma.rental_log.findFirst({
-            where: {
-                book_isbn: isbn,
-                returned_date: { equals: null as any } // NULL検索
-            }
-        })
+        const bookId = req.body.book_id // ISBN (ハイフン入り・ISBN-10も可)
 
-        if (rental) {
-            return res.status(409).json({ message: "既に貸出中です" })
+        // チェックディジットを検証し、ISBN-13に正規化する
+        const isbn = parseIsbn(bookId)
+        if (isbn === null) {
+            return res.status(400).json({ message: "ISBNの形式が正しくありません" })
         }
 
-        // 3. 貸出処理を実行 (Create)
-        const now = new Date()
-        const dueDate = new Date()
-        dueDate.setDate(dueDate.getDate() + 7) // 7日後
-
-        const newRental = await prisma.rental_log.create({
-            data: {
-                book_isbn: isbn,
-                user_id: (req.user as any).id,
-                checkout_date: now,
-                due_date: dueDate,
-                returned_date: null as any // 登録時はNULLで
-            }
+        // 貸出処理 (延滞料・貸出上限・在庫・取り置きのチェックを含む)
+        const { rental, copy } = await checkoutBook({
+            userId,
+            isbn,
+            barcode: req.body.barcode,
+            staffId: userId !== req.user.id ? req.user.id : undefined,
+            actorId: req.user.id
         })
 
-        // 4. JSONレスポンス
+        // JSONレスポンス
         return res.status(200).json({
-            id: newRental.id,
-            checkout_date: newRental.checkout_date,
-            due_date: newRental.due_date
+            id: rental.id,
+            barcode: copy.barcode,
+            checkout_date: rental.checkout_date,
+            due_date: rental.due_date
         })
 
-    } catch (error) {
+    } catch (error: any) {
+        // 貸出できない理由 (403/404/409) はそのまま返す
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
         console.error(error)
         // 想定外エラー
         return res.status(500).json({ message: "サーバーエラーが発生しました" })
@@ -228,21 +350,28 @@ router.post('/rental', async (req: Request, res: Response, next: NextFunction) =
 // ==========================================
 // 3. 書籍詳細機能 (GET /book/detail/:isbn)
 // ==========================================
-router.get('/detail/:isbn', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/detail/:isbn', acceptToken('catalog:read'), apiOperation({
+    operationId: 'getBook', method: 'get', path: '/book/detail/{isbn}', tag: 'catalog',
+    summary: '書籍詳細', login: false, scope: 'catalog:read',
+    params: { isbn: ISBN }
+}), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const isbnStr = req.params.isbn
-        let isbn: bigint
-        try {
-            isbn = BigInt(isbnStr)
-        } catch {
+        const isbn = parseIsbn(isbnStr)
+        if (isbn === null) {
             const err: any = new Error('ISBNの形式が正しくありません')
             err.status = 404
             throw err
         }
 
-        // 1. 書籍検索
+        // 1. 書籍検索 (著者・訳者など、出版社も一緒に取得)
         const book = await prisma.book.findUnique({
-            where: { isbn: isbn }
+            where: { isbn: isbn },
+            include: {
+                contributors: { include: { author: true } },
+                publisher: true,
+                tags: { include: { tag: true } }
+            }
         })
 
         if (!book) {
@@ -251,34 +380,52 @@ router.get('/detail/:isbn', async (req: Request, res: Response, next: NextFuncti
             throw err
         }
 
-        // 2. 著者・出版社・貸出状況の取得
-        const [author, publisher, activeRental] = await Promise.all([
-            prisma.author.findUnique({ where: { id: book.author_id } }),
-            prisma.publisher.findUnique({ where: { id: book.publisher_id } }),
+        // 2. ★貸出状況 (所蔵数と、そのうち貸出中でない冊数)
+        const copies = await countCopies(isbn)
 
-            // ★貸出中チェック (returned_dateがNULLのものを探す)
-            prisma.rental_log.findFirst({
-                where: {
-                    book_isbn: isbn,
-                    returned_date: { equals: null as any }
-                }
+        // 取り置き状況と予約待ち人数
+        const [holds, waitingCount] = await Promise.all([
+            findActiveHolds(isbn),
+            prisma.reservation.count({
+                where: { book_isbn: isbn, status: 'waiting' }
             })
         ])
+        const availableCount = Math.max(copies.free - holds.length, 0)
 
         // 3. データ整形
+        const contributors = formatContributors(book.contributors)
         const detailData = {
             isbn: book.isbn.toString(),
             title: book.title,
             author: {
-                name: author ? author.name : '不明'
+                name: contributorSummary(contributors)
             },
+            // ★著者・訳者などを表示順に
+            contributors: contributors,
             publisher: {
-                name: publisher ? publisher.name : '不明'
+                id: book.publisher.id,
+                name: book.publisher.name
             },
             publication_year_month: `${book.publication_year}.${book.publication_month}`,
 
+            // ★あらすじ・ページ数・言語・タグ・書影 (未設定は null)
+            description: book.description,
+            page_count: book.page_count,
+            language: book.language,
+            language_label: languageLabel(book.language),
+            tags: formatTags(book.tags),
+            cover_url: book.cover_file ? `/book/${book.isbn}/cover` : null,
+
+            // ★所蔵数と貸出可能数 (例: 3冊中2冊貸出可能)
+            copy_count: copies.total,
+            available_count: availableCount,
+
             // ★画面側でボタンを「貸出中(赤)」にするためのフラグ
-            is_rental: !!activeRental
+            is_rental: copies.free === 0,
+
+            // ★予約関連 (取り置き中・予約待ち人数)
+            is_held: copies.free > 0 && availableCount === 0,
+            reservation_count: waitingCount + holds.length
         }
 
         // 4. Pugを表示
@@ -299,4 +446,100 @@ router.get('/detail/:isbn', async (req: Request, res: Response, next: NextFuncti
     }
 })
 
+
+// ==========================================
+// 3-2. 書影 (GET /book/:isbn/cover?w=240)
+// ==========================================
+// 縮小した画像を返す (幅は 120 / 240 / 480 のいずれかに丸める)
+router.get('/:isbn/cover', acceptToken('catalog:read'), apiOperation({
+    operationId: 'getBookCover', method: 'get', path: '/book/{isbn}/cover', tag: 'catalog',
+    summary: '書影 (縮小版)', login: false, scope: 'catalog:read',
+    params: { isbn: ISBN },
+    query: { w: { type: 'integer', minimum: 1, maximum: 2000, description: '幅 (120 / 240 / 480 に丸める)' } },
+    response: { description: 'WebP 画像', type: 'image/webp', schema: { type: 'string', format: 'binary' } }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const isbn = parseIsbn(req.params.isbn)
+        const book = isbn === null ? null : await prisma.book.findUnique({ where: { isbn: isbn } })
+        if (!book || book.isDeleted || !book.cover_file) {
+            const err: any = new Error('書影が見つかりません')
+            err.status = 404
+            throw err
+        }
+
+        const thumbPath = await coverThumbnail(book.cover_file, thumbWidth(req.query.w))
+        // 差し替えても URL は変わらないので、ブラウザのキャッシュは短めにする
+        res.sendFile(thumbPath, { maxAge: '1h' })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+
+// ==========================================
+// 4. 予約機能 (POST/DELETE /book/:isbn/reserve)
+// ==========================================
+router.post('/:isbn/reserve', acceptToken('loan:own'), apiOperation({
+    operationId: 'reserveBook', method: 'post', path: '/book/{isbn}/reserve', tag: 'loan',
+    summary: '予約', scope: 'loan:own',
+    params: { isbn: ISBN }
+}), requireVerifiedEmail, async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const isbn = parseIsbn(req.params.isbn)
+        if (isbn === null) {
+            return res.status(400).json({ message: "ISBNの形式が正しくありません" })
+        }
+        const userId = req.user.id
+
+        // 書籍の有無・貸出可能か・二重予約の確認と登録 (404/409)
+        const reservation = await reserveBook(userId, isbn)
+
+        return res.status(200).json({
+            id: reservation.id,
+            position: await queuePosition(reservation)
+        })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        console.error(error)
+        return res.status(500).json({ message: "サーバーエラーが発生しました" })
+    }
+})
+
+router.delete('/:isbn/reserve', acceptToken('loan:own'), apiOperation({
+    operationId: 'cancelReservation', method: 'delete', path: '/book/{isbn}/reserve', tag: 'loan',
+    summary: '予約の取り消し', scope: 'loan:own',
+    params: { isbn: ISBN }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const isbn = parseIsbn(req.params.isbn)
+        if (isbn === null) {
+            return res.status(400).json({ message: "ISBNの形式が正しくありません" })
+        }
+
+        // 取り置き中だった場合は次の予約者へ回す
+        await cancelReservation(req.user.id, isbn)
+
+        return res.status(200).json({ message: '予約を取り消しました' })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        console.error(error)
+        return res.status(500).json({ message: "サーバーエラーが発生しました" })
+    }
+})
+
 export default router
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { PrismaClient } from '@prisma/client'
+import { findShelfPage } from '../libs/shelf.js'
+import { acceptToken } from '../libs/auth.js'
+import { apiOperation, PAGE, UUID } from '../libs/openapi.js'
+
+const router = Router()
+const prisma = new PrismaClient()
+
+// ==========================================
+// 出版社詳細 (GET /publisher/:id?page=N) API & View
+// ==========================================
+router.get('/:id', acceptToken('catalog:read'), apiOperation({
+    operationId: 'getPublisher', method: 'get', path: '/publisher/{id}', tag: 'catalog',
+    summary: '出版社と書籍一覧', login: false, scope: 'catalog:read',
+    params: { id: UUID },
+    query: { page: PAGE }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // 1. 出版社検索 (削除済みは表示しない)
+        const publisher = await prisma.publisher.findUnique({
+            where: { id: req.params.id }
+        })
+
+        if (!publisher || publisher.isDeleted) {
+            const err: any = new Error('出版社が見つかりません')
+            err.status = 404
+            throw err
+        }
+
+        // 2. 出版した書籍 (削除されていないもの) を貸出状況付きで取得
+        const page = parseInt(String(req.query.page || '1'), 10) || 1
+        const shelf = await findShelfPage({
+            where: { publisher_id: publisher.id },
+            page
+        })
+
+        // 3. データ整形
+        const detailData = {
+            id: publisher.id,
+            name: publisher.name,
+            current: shelf.current,
+            last_page: shelf.last_page,
+            total: shelf.total,
+            books: shelf.books
+        }
+
+        res.format({
+            html: () => {
+                res.render('publisher/detail', {
+                    title: `出版社: ${publisher.name}`,
+                    publisher: detailData
+                })
+            },
+            json: () => {
+                res.json(detailData)
+            }
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+export default router
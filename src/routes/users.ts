@@ -1,7 +1,19 @@
 import { Router, Request, Response, NextFunction } from 'express'
-import passport from '../libs/auth.js'
+import passport, { acceptToken, refreshLogin, userAllows } from '../libs/auth.js'
 import argon2 from 'argon2'
+import createError from 'http-errors'
 import { PrismaClient } from '@prisma/client'
+import { findActiveHolds, queuePosition } from '../libs/reservation.js'
+import { daysLate, getFineBalance, isOverdue } from '../libs/fine.js'
+import { getLoanPolicy } from '../libs/policy.js'
+import { hasPermission } from '../libs/permission.js'
+import { renewRental, returnRental } from '../libs/loan.js'
+import { recordAudit } from '../libs/audit.js'
+import { apiOperation, EMAIL, UUID } from '../libs/openapi.js'
+import { consumeUserToken, deleteAccount, requestPasswordReset, sendVerificationMail } from '../libs/account.js'
+import { normalizeEmail, takeRateLimit } from '../libs/lockout.js'
+import { listSessions, revokeAllSessions, revokeSession, sessionHandle, untrackSession } from '../libs/sessions.js'
+import { createApiToken, listApiTokens, parseScopes, revokeApiToken, TOKEN_SCOPES, TOKEN_SCOPE_LABELS } from '../libs/token.js'
 
 const router = Router()
 const prisma = new PrismaClient()
@@ -18,7 +30,18 @@ router.get('/login', async (req, res) => {
 // ==========================================
 // ログイン処理 (POST) API & Form
 // ==========================================
-router.post('/login', (req: Request, res: Response, next: NextFunction) => {
+router.post('/login', apiOperation({
+    operationId: 'login', method: 'post', path: '/users/login', tag: 'user',
+    summary: 'ログイン (セッションを発行)', login: false,
+    body: {
+        type: 'object',
+        required: ['email', 'password'],
+        properties: {
+            email: { type: 'string', maxLength: 254 },
+            password: { type: 'string', format: 'password', maxLength: 256 }
+        }
+    }
+}), (req: Request, res: Response, next: NextFunction) => {
     // passport.authenticate をカスタムコールバックで呼び出し、API/画面分岐を行う
     passport.authenticate('local', (err: any, user: any, info: any) => {
         if (err) return next(err)
@@ -54,6 +77,33 @@ router.post('/login', (req: Request, res: Response, next: NextFunction) => {
     })(req, res, next)
 })
 
+// ==========================================
+// ログアウト (POST) API & Form
+// ==========================================
+router.post('/logout', apiOperation({
+    operationId: 'logout', method: 'post', path: '/users/logout', tag: 'user',
+    summary: 'ログアウト (このセッションを破棄)', login: false
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (req.user && !req.user.token) {
+            await untrackSession(req.user.id, req.sessionID)
+        }
+        req.logout((err) => {
+            if (err) return next(err)
+            req.session.destroy((err) => {
+                if (err) return next(err)
+                res.clearCookie('mb_sid')
+                res.format({
+                    html: () => res.redirect('/users/login'),
+                    json: () => res.status(200).json({ message: 'ログアウトしました' })
+                })
+            })
+        })
+    } catch (error) {
+        next(error)
+    }
+})
+
 // ==========================================
 // 登録画面 (GET)
 // ==========================================
@@ -66,7 +116,19 @@ router.get('/register', async (req, res) => {
 // ==========================================
 // 登録処理 (POST) API & Form
 // ==========================================
-router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/register', apiOperation({
+    operationId: 'register', method: 'post', path: '/users/register', tag: 'user',
+    summary: 'ユーザー登録', login: false,
+    body: {
+        type: 'object',
+        required: ['name', 'email', 'password'],
+        properties: {
+            name: { type: 'string', maxLength: 512 },
+            email: EMAIL,
+            password: { type: 'string', format: 'password', maxLength: 256 }
+        }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { name, email, password } = req.body
 
@@ -78,14 +140,25 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
         const hashedPassword = await argon2.hash(password)
 
         // ユーザー作成
-        await prisma.user.create({
-            data: {
-                name: name,
-                email: email,
-                password: hashedPassword
-            }
+        const user = await prisma.$transaction(async (tx) => {
+            const created = await tx.user.create({
+                data: {
+                    name: name,
+                    email: email,
+                    password: hashedPassword
+                }
+            })
+            await recordAudit({ actorId: created.id, action: 'register', entity: 'user', entityId: created.id, after: created }, tx)
+            return created
         })
 
+        // 確認メール (送れなくても登録は成功とし、後で再送してもらう)
+        try {
+            await sendVerificationMail(user)
+        } catch (mailError) {
+            console.error("確認メールの送信エラー:", mailError)
+        }
+
         // 成功時のレスポンス
         res.format({
             html: () => {
@@ -110,17 +183,177 @@ router.post('/register', async (req: Request, res: Response, next: NextFunction)
             json: () => {
                 // API課題用: 400 Bad Request
                 // error.message や Prismaエラーコードから理由を設定するとベター
-                res.status(400).json({ reason: error.message || '登録失敗' })
+                res.status(400).json({ message: error.message || '登録失敗' })
             }
         })
     }
 })
 
 
+// ==========================================
+// メールアドレスの確認 (GET /users/verify?token=...)
+// ==========================================
+router.get('/verify', apiOperation({
+    operationId: 'verifyEmail', method: 'get', path: '/users/verify', tag: 'user',
+    summary: 'メールアドレスの確認 (確認メールのリンク)', login: false,
+    query: { token: { type: 'string', minLength: 1, maxLength: 128 } }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = await consumeUserToken(String(req.query.token ?? ''), 'verify_email')
+        await prisma.$transaction(async (tx) => {
+            const user = await tx.user.update({
+                where: { id: userId },
+                data: { email_verified_at: new Date() }
+            })
+            await recordAudit({ actorId: user.id, action: 'verify_email', entity: 'user', entityId: user.id, after: { email: user.email, email_verified_at: user.email_verified_at } }, tx)
+        })
+
+        const message = 'メールアドレスを確認しました'
+        res.format({
+            html: () => res.render('users/notice', { title: message, message, link: { href: '/book/list/1', label: '書籍一覧へ' } }),
+            json: () => res.status(200).json({ message })
+        })
+
+    } catch (error: any) {
+        if (!error.status) return next(error)
+        res.status(error.status)
+        res.format({
+            html: () => res.render('users/notice', { title: '確認できませんでした', message: error.message, link: { href: '/users/change', label: '確認メールを再送する' } }),
+            json: () => res.json({ message: error.message })
+        })
+    }
+})
+
+// 確認メールの再送 (ログイン中のユーザー)
+router.post('/verify/resend', apiOperation({
+    operationId: 'resendVerification', method: 'post', path: '/users/verify/resend', tag: 'user',
+    summary: '確認メールの再送'
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.user.id } })
+        if (!user) {
+            return res.status(404).json({ message: "ユーザが存在しません" })
+        }
+        if (user.email_verified_at) {
+            return res.status(409).json({ message: "メールアドレスは確認済みです" })
+        }
+        await sendVerificationMail(user)
+        return res.status(200).json({ message: `${user.email} に確認メールを送りました` })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+
+// ==========================================
+// パスワードの再設定 (GET/POST /users/forgot, GET/POST /users/reset)
+// ==========================================
+router.get('/forgot', (req, res) => {
+    res.render('users/forgot', { title: 'パスワードの再設定' })
+})
+
+// 連続送信の上限 (1時間あたり)。IP アドレスごとの上限を超えたら 429、
+// メールアドレスごとの上限を超えたら送らずに同じ応答を返す
+const FORGOT_WINDOW = 60 * 60
+const FORGOT_LIMIT_PER_IP = 20
+const FORGOT_LIMIT_PER_EMAIL = 3
+
+// 登録の有無がわからないよう、メールアドレスに関係なく同じ応答を返す
+// 送信は待たずに応答する (登録の有無で応答時間や送信エラーの有無が変わらないように)
+router.post('/forgot', apiOperation({
+    operationId: 'forgotPassword', method: 'post', path: '/users/forgot', tag: 'user',
+    summary: 'パスワード再設定メールの送信', login: false,
+    body: { type: 'object', required: ['email'], properties: { email: EMAIL } }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (!await takeRateLimit('forgot:ip', req.ip ?? '', FORGOT_LIMIT_PER_IP, FORGOT_WINDOW)) {
+            throw createError(429, '短時間に送信が繰り返されました。しばらくしてからお試しください')
+        }
+        const email = normalizeEmail(String(req.body.email ?? ''))
+        if (email && await takeRateLimit('forgot:email', email, FORGOT_LIMIT_PER_EMAIL, FORGOT_WINDOW)) {
+            requestPasswordReset(email).catch(error => console.error(error))
+        }
+
+        const message = '登録されているメールアドレスであれば、再設定用のリンクを送りました'
+        res.format({
+            html: () => res.render('users/notice', { title: 'パスワードの再設定', message, link: { href: '/users/login', label: 'ログインへ' } }),
+            json: () => res.status(200).json({ message })
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+router.get('/reset', (req, res) => {
+    res.render('users/reset', { title: 'パスワードの再設定', token: String(req.query.token ?? ''), error: null })
+})
+
+router.post('/reset', apiOperation({
+    operationId: 'resetPassword', method: 'post', path: '/users/reset', tag: 'user',
+    summary: 'パスワードの再設定 (再設定メールのトークンを使う)', login: false,
+    body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+            token: { type: 'string', minLength: 1, maxLength: 128 },
+            password: { type: 'string', format: 'password', minLength: 1, maxLength: 256 }
+        }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = await consumeUserToken(req.body.token, 'reset_password')
+        const before = await prisma.user.findUnique({ where: { id: userId } })
+        if (!before || before.isDeleted) {
+            throw createError(400, 'リンクが無効か、有効期限が切れています')
+        }
+
+        // リンクを開けた = メールを受け取れているので、未確認なら確認済みにする
+        const password = await argon2.hash(req.body.password)
+        const user = await prisma.$transaction(async (tx) => {
+            const updated = await tx.user.update({
+                where: { id: userId },
+                data: {
+                    password,
+                    email_verified_at: before.email_verified_at ?? new Date(),
+                    // ログイン中のセッションはすべてログアウトさせる
+                    session_epoch: { increment: 1 }
+                }
+            })
+            await recordAudit({ actorId: updated.id, action: 'reset_password', entity: 'user', entityId: updated.id }, tx)
+            return updated
+        })
+        await revokeAllSessions(user.id)
+
+        const message = 'パスワードを再設定しました。新しいパスワードでログインしてください'
+        res.format({
+            html: () => res.render('users/notice', { title: 'パスワードの再設定', message, link: { href: '/users/login', label: 'ログインへ' } }),
+            json: () => res.status(200).json({ message })
+        })
+
+    } catch (error: any) {
+        if (!error.status) return next(error)
+        res.status(error.status)
+        res.format({
+            html: () => res.render('users/reset', { title: 'パスワードの再設定', token: req.body.token, error: error.message }),
+            json: () => res.json({ message: error.message })
+        })
+    }
+})
+
+
 // ==========================================
 // 貸出記録 (GET) API & View
 // ==========================================
-router.get('/history', async (req, res, next) => {
+router.get('/history', acceptToken('loan:own'), apiOperation({
+    operationId: 'listHistory', method: 'get', path: '/users/history', tag: 'loan',
+    summary: '自分の貸出履歴と延滞料残高', scope: 'loan:own'
+}), async (req, res, next) => {
     if (!req.user) {
         // 未ログイン時の対応
         res.format({
@@ -133,40 +366,43 @@ router.get('/history', async (req, res, next) => {
     try {
         const logs = await prisma.rental_log.findMany({
             where: {
-                user_id: (req.user as any).id
+                user_id: req.user.id
             },
             orderBy: {
                 checkout_date: 'desc'
-            }
+            },
+            include: { book: true }
         })
 
-        const historyData = await Promise.all(logs.map(async (log: any) => {
-            const book = await prisma.book.findUnique({
-                where: { isbn: log.book_isbn }
-            })
-            return {
-                id: log.id,
-                book: {
-                    isbn: log.book_isbn.toString(),
-                    name: book ? book.title : '書籍不明'
-                },
-                checkout_date: log.checkout_date,
-                due_date: log.due_date,
-                returned_date: log.returned_date
-            }
+        const historyData = logs.map((log) => ({
+            id: log.id,
+            book: {
+                isbn: log.book_isbn.toString(),
+                name: log.book.title
+            },
+            checkout_date: log.checkout_date,
+            due_date: log.due_date,
+            returned_date: log.returned_date,
+            renewal_count: log.renewal_count,
+            // ★延滞状況はサーバー側で判定する
+            is_overdue: isOverdue(log),
+            days_late: daysLate(log.due_date, log.returned_date || new Date())
         }))
 
+        const fineBalance = await getFineBalance(req.user.id)
+
         // ★ API(JSON)と画面(Pug)の両方に対応
         res.format({
             html: () => {
                 res.render('users/history', {
                     title: 'History',
                     history: historyData,
+                    fine_balance: fineBalance,
                     error: (req.session.messages || []).pop()
                 })
             },
             json: () => {
-                res.json({ history: historyData })
+                res.json({ history: historyData, fine_balance: fineBalance })
             }
         })
 
@@ -179,38 +415,65 @@ router.get('/history', async (req, res, next) => {
 // ==========================================
 // 名前変更画面 (GET)
 // ==========================================
-router.get('/change', (req, res) => {
+router.get('/change', async (req, res) => {
     if (!req.user) return res.redirect('/users/login')
 
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } })
     res.render('users/change', {
         title: '名前変更',
         // @ts-ignore
-        userName: req.user.name
+        userName: req.user.name,
+        email: user?.email,
+        emailVerified: !!user?.email_verified_at
     })
 })
 
 // ==========================================
 // 名前変更処理 (PUT) API
 // ==========================================
-router.put('/change', async (req, res, next) => {
+router.put('/change', apiOperation({
+    operationId: 'changeName', method: 'put', path: '/users/change', tag: 'user',
+    summary: '名前の変更',
+    body: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string', maxLength: 512 } }
+    }
+}), async (req, res, next) => {
     if (!req.user) {
-        return res.status(401).json({ reason: 'ログインしていません' })
+        return res.status(401).json({ message: 'ログインしていません' })
     }
 
     try {
         const newName = req.body.name
 
         if (!newName || typeof newName !== 'string' || newName.trim() === '') {
-            return res.status(400).json({ reason: '名前が入力されていません' })
+            return res.status(400).json({ message: '名前が入力されていません' })
         }
 
-        await prisma.user.update({
-            where: {
-                id: (req.user as any).id
-            },
-            data: {
-                name: newName
-            }
+        const userId = req.user.id
+        await prisma.$transaction(async (tx) => {
+            const before = await tx.user.findUnique({
+                where: {
+                    id: userId
+                }
+            })
+            await tx.user.update({
+                where: {
+                    id: userId
+                },
+                data: {
+                    name: newName
+                }
+            })
+            await recordAudit({
+                actorId: userId,
+                action: 'update',
+                entity: 'user',
+                entityId: userId,
+                before: { name: before ? before.name : null },
+                after: { name: newName }
+            }, tx)
         })
 
         return res.status(200).json({
@@ -219,7 +482,199 @@ router.put('/change', async (req, res, next) => {
 
     } catch (error) {
         console.error(error)
-        return res.status(500).json({ reason: 'サーバーエラーが発生しました' })
+        return res.status(500).json({ message: 'サーバーエラーが発生しました' })
+    }
+})
+
+
+// ==========================================
+// アカウント設定画面 (GET /users/edit)
+// ==========================================
+router.get('/edit', async (req, res) => {
+    if (!req.user) return res.redirect('/users/login')
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } })
+    res.render('users/edit', {
+        title: 'アカウント設定',
+        email: user?.email
+    })
+})
+
+// 現在のパスワードを確かめる (違う場合は 400)
+async function verifyCurrentPassword(userId: string, password: unknown) {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user || user.isDeleted) {
+        throw createError(404, 'ユーザが存在しません')
+    }
+    if (typeof password !== 'string' || !await argon2.verify(user.password, password)) {
+        throw createError(400, '現在のパスワードが違います')
+    }
+    return user
+}
+
+// ==========================================
+// パスワード変更 (PUT /users/password) API
+// ==========================================
+// 変更後は他のセッションをログアウトさせる (このセッションはそのまま)
+router.put('/password', apiOperation({
+    operationId: 'changePassword', method: 'put', path: '/users/password', tag: 'user',
+    summary: 'パスワードの変更 (他のセッションはログアウトする)',
+    body: {
+        type: 'object',
+        required: ['current_password', 'new_password'],
+        properties: {
+            current_password: { type: 'string', format: 'password', maxLength: 256 },
+            new_password: { type: 'string', format: 'password', minLength: 1, maxLength: 256 }
+        }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        await verifyCurrentPassword(req.user.id, req.body.current_password)
+        const userId = req.user.id
+        const password = await argon2.hash(req.body.new_password)
+        const user = await prisma.$transaction(async (tx) => {
+            const updated = await tx.user.update({
+                where: { id: userId },
+                data: {
+                    password,
+                    session_epoch: { increment: 1 }
+                }
+            })
+            await recordAudit({ actorId: updated.id, action: 'change_password', entity: 'user', entityId: updated.id }, tx)
+            return updated
+        })
+        await refreshLogin(req, user.session_epoch)
+        await revokeAllSessions(user.id, req.sessionID)
+
+        return res.status(200).json({ message: 'パスワードを変更しました' })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        next(error)
+    }
+})
+
+// ==========================================
+// メールアドレス変更 (PUT /users/email) API
+// ==========================================
+// 新しいアドレスは未確認に戻し、確認メールを送る。他のセッションはログアウトさせる
+router.put('/email', apiOperation({
+    operationId: 'changeEmail', method: 'put', path: '/users/email', tag: 'user',
+    summary: 'メールアドレスの変更 (確認メールを送り、他のセッションはログアウトする)',
+    body: {
+        type: 'object',
+        required: ['email', 'current_password'],
+        properties: {
+            email: EMAIL,
+            current_password: { type: 'string', format: 'password', maxLength: 256 }
+        }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const before = await verifyCurrentPassword(req.user.id, req.body.current_password)
+        const email = req.body.email
+        if (email === before.email) {
+            return res.status(400).json({ message: "現在と同じメールアドレスです" })
+        }
+        if (await prisma.user.findUnique({ where: { email } })) {
+            return res.status(409).json({ message: "このメールアドレスは使用されています" })
+        }
+
+        const userId = req.user.id
+        const user = await prisma.$transaction(async (tx) => {
+            const updated = await tx.user.update({
+                where: { id: userId },
+                data: {
+                    email,
+                    email_verified_at: null,
+                    session_epoch: { increment: 1 }
+                }
+            })
+            await recordAudit({
+                actorId: updated.id, action: 'change_email', entity: 'user', entityId: updated.id,
+                before: { email: before.email }, after: { email: updated.email }
+            }, tx)
+            return updated
+        })
+        await refreshLogin(req, user.session_epoch)
+        await revokeAllSessions(user.id, req.sessionID)
+
+        try {
+            await sendVerificationMail(user)
+        } catch (mailError) {
+            console.error("確認メールの送信エラー:", mailError)
+        }
+
+        return res.status(200).json({ message: `メールアドレスを変更しました。${user.email} に届く確認メールのリンクを開いてください` })
+
+    } catch (error: any) {
+        if (error.code === 'P2002') {
+            return res.status(409).json({ message: "このメールアドレスは使用されています" })
+        }
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        next(error)
+    }
+})
+
+// ==========================================
+// 退会 (GET /users/delete, DELETE /users/account)
+// ==========================================
+router.get('/delete', async (req, res) => {
+    if (!req.user) return res.redirect('/users/login')
+
+    const openLoans = await prisma.rental_log.count({
+        where: { user_id: req.user.id, returned_date: null }
+    })
+    res.render('users/delete', {
+        title: '退会',
+        openLoans
+    })
+})
+
+// 貸出中の本があるうちは退会できない (libs/account.ts の deleteAccount)
+router.delete('/account', apiOperation({
+    operationId: 'deleteAccount', method: 'delete', path: '/users/account', tag: 'user',
+    summary: '退会 (貸出中の本がある場合は不可)',
+    body: {
+        type: 'object',
+        required: ['current_password'],
+        properties: { current_password: { type: 'string', format: 'password', maxLength: 256 } }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const userId = req.user.id
+        await verifyCurrentPassword(userId, req.body.current_password)
+
+        await deleteAccount(userId)
+        await revokeAllSessions(userId, req.sessionID)
+
+        // このセッションもログアウトする
+        req.logout((err) => {
+            if (err) return next(err)
+            res.status(200).json({ message: '退会しました' })
+        })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        next(error)
     }
 })
 
@@ -227,42 +682,59 @@ router.put('/change', async (req, res, next) => {
 // ==========================================
 // 返却手続き画面 (GET /users/return)
 // ==========================================
-router.get('/return', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/return', acceptToken('loan:own'), apiOperation({
+    operationId: 'listOpenLoans', method: 'get', path: '/users/return', tag: 'loan',
+    summary: '返却していない貸出の一覧', scope: 'loan:own'
+}), async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
-        return res.redirect('/users/login')
+        res.format({
+            html: () => res.redirect('/users/login'),
+            json: () => res.status(401).json({ message: '未ログイン' })
+        })
+        return
     }
 
     try {
         // 未返却のログのみ取得
         const rentals = await prisma.rental_log.findMany({
             where: {
-                user_id: (req.user as any).id,
-                returned_date: { equals: null as any }
+                user_id: req.user.id,
+                returned_date: null
             },
             orderBy: {
                 checkout_date: 'asc'
-            }
+            },
+            include: { book: true }
         })
 
-        const rentalData = await Promise.all(rentals.map(async (rental: any) => {
-            const book = await prisma.book.findUnique({
-                where: { isbn: rental.book_isbn }
-            })
-            return {
-                id: rental.id,
-                book: {
-                    title: book ? book.title : '書籍不明',
-                    isbn: rental.book_isbn.toString()
-                },
-                checkout_date: rental.checkout_date,
-                due_date: rental.due_date
-            }
+        const policy = await getLoanPolicy(req.user.id)
+
+        const rentalData = rentals.map((rental) => ({
+            id: rental.id,
+            book: {
+                title: rental.book.title,
+                isbn: rental.book_isbn.toString()
+            },
+            checkout_date: rental.checkout_date,
+            due_date: rental.due_date,
+            renewal_count: rental.renewal_count,
+            is_overdue: isOverdue(rental),
+            days_late: daysLate(rental.due_date),
+            // ★延長ボタンの表示判定用
+            can_renew: rental.renewal_count < policy.max_renewals && !isOverdue(rental)
         }))
 
-        // Viewファイル指定 (必要なら書き換えてください)
-        res.render('users/return', {
-            title: '返却手続き',
-            rentals: rentalData
+        res.format({
+            html: () => {
+                // Viewファイル指定 (必要なら書き換えてください)
+                res.render('users/return', {
+                    title: '返却手続き',
+                    rentals: rentalData
+                })
+            },
+            json: () => {
+                res.json({ rentals: rentalData })
+            }
         })
 
     } catch (error) {
@@ -273,7 +745,15 @@ router.get('/return', async (req: Request, res: Response, next: NextFunction) =>
 // ==========================================
 // 返却実行 (PUT /users/return) API
 // ==========================================
-router.put('/return', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/return', acceptToken('loan:own'), apiOperation({
+    operationId: 'returnBook', method: 'put', path: '/users/return', tag: 'loan',
+    summary: '返却', scope: 'loan:own',
+    body: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { ...UUID, description: '貸出記録のID' } }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
         return res.status(401).json({ message: "ログインしてください" })
     }
@@ -290,31 +770,353 @@ router.put('/return', async (req: Request, res: Response, next: NextFunction) =>
             return res.status(404).json({ message: "存在しない貸出記録です" })
         }
 
-        // 2. 本人確認
-        if (rental.user_id !== (req.user as any).id) {
+        // 2. 本人確認 (司書は他の利用者の返却も受け付けられる)
+        if (rental.user_id !== req.user.id && !(userAllows(req.user, 'admin') && await hasPermission(req.user.id, 'loan:manage'))) {
             return res.status(403).json({ message: "他のユーザの貸出書籍です" })
         }
 
-        // 3. 返却処理
-        const now = new Date()
-        const updatedRental = await prisma.rental_log.update({
-            where: { id: rentalId },
-            data: {
-                returned_date: now
-            }
-        })
+        // 3. 返却処理 (延滞料の記録・予約者への取り置きを含む)
+        // 本人以外 (司書) が返却した場合は担当者として記録する
+        const staffId = rental.user_id !== req.user.id ? req.user.id : undefined
+        const { rental: updatedRental, fine } = await returnRental(rental.id, { staffId, actorId: req.user.id })
 
         // 返却データを返す仕様
         return res.status(200).json({
             id: updatedRental.id,
-            returned_date: updatedRental.returned_date
+            returned_date: updatedRental.returned_date,
+            fine: fine
+        })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        console.error(error)
+        return res.status(500).json({ message: "サーバーエラーが発生しました" })
+    }
+})
+
+
+// ==========================================
+// 貸出延長 (PUT /users/rental/:id/renew) API
+// ==========================================
+router.put('/rental/:id/renew', acceptToken('loan:own'), apiOperation({
+    operationId: 'renewLoan', method: 'put', path: '/users/rental/{id}/renew', tag: 'loan',
+    summary: '貸出の延長', scope: 'loan:own',
+    params: { id: UUID }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        // 1. 貸出記録検索
+        const rental = await prisma.rental_log.findUnique({
+            where: { id: req.params.id }
+        })
+
+        if (!rental) {
+            return res.status(404).json({ message: "存在しない貸出記録です" })
+        }
+
+        // 2. 本人確認 (司書は他の利用者の延長も受け付けられる)
+        if (rental.user_id !== req.user.id && !(userAllows(req.user, 'admin') && await hasPermission(req.user.id, 'loan:manage'))) {
+            return res.status(403).json({ message: "他のユーザの貸出書籍です" })
+        }
+
+        // 3. 延長できる状態か確認して延長する (403/409)
+        const updatedRental = await renewRental(rental.id, req.user.id)
+
+        return res.status(200).json({
+            id: updatedRental.id,
+            due_date: updatedRental.due_date,
+            renewal_count: updatedRental.renewal_count
+        })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        console.error(error)
+        return res.status(500).json({ message: "サーバーエラーが発生しました" })
+    }
+})
+
+
+// ==========================================
+// 予約一覧 (GET /users/reservations) API & View
+// ==========================================
+router.get('/reservations', acceptToken('loan:own'), apiOperation({
+    operationId: 'listReservations', method: 'get', path: '/users/reservations', tag: 'loan',
+    summary: '自分の予約一覧', scope: 'loan:own'
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        res.format({
+            html: () => res.redirect('/users/login'),
+            json: () => res.status(401).json({ message: '未ログイン' })
+        })
+        return
+    }
+
+    try {
+        const reservations = await prisma.reservation.findMany({
+            where: {
+                user_id: req.user.id,
+                status: { in: ['waiting', 'ready'] }
+            },
+            orderBy: {
+                createdAt: 'asc'
+            },
+            include: { book: true }
+        })
+
+        const reservationData = await Promise.all(reservations.map(async (reservation) => {
+            // 期限切れの取り置きはここで処理されるため、最新の状態を取り直す
+            await findActiveHolds(reservation.book_isbn)
+            const current = await prisma.reservation.findUnique({
+                where: { id: reservation.id }
+            })
+            const status = current ? current.status : reservation.status
+            return {
+                id: reservation.id,
+                book: {
+                    isbn: reservation.book_isbn.toString(),
+                    title: reservation.book.title
+                },
+                status: status,
+                position: status === 'waiting' ? await queuePosition(reservation) : null,
+                reserved_date: reservation.createdAt,
+                expires_at: current ? current.expires_at : null
+            }
+        }))
+
+        // 期限切れになったものは除く
+        const activeReservations = reservationData
+            .filter((item) => item.status === 'waiting' || item.status === 'ready')
+
+        res.format({
+            html: () => {
+                res.render('users/reservations', {
+                    title: '予約一覧',
+                    reservations: activeReservations
+                })
+            },
+            json: () => {
+                res.json({ reservations: activeReservations })
+            }
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+
+// ==========================================
+// APIトークン (GET/POST /users/tokens, DELETE /users/tokens/:id)
+// ==========================================
+// トークンの管理はログイン中の画面からだけ行う (トークンでは操作できない)
+router.get('/tokens', apiOperation({
+    operationId: 'listTokens', method: 'get', path: '/users/tokens', tag: 'token',
+    summary: '発行済みの API トークン一覧'
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        res.format({
+            html: () => res.redirect('/users/login'),
+            json: () => res.status(401).json({ message: '未ログイン' })
+        })
+        return
+    }
+
+    try {
+        const tokens = await listApiTokens(req.user.id)
+        res.format({
+            html: () => {
+                res.render('users/tokens', {
+                    title: 'APIトークン',
+                    tokens: tokens,
+                    scopes: TOKEN_SCOPES,
+                    scopeLabels: TOKEN_SCOPE_LABELS
+                })
+            },
+            json: () => {
+                res.json({ tokens })
+            }
         })
 
     } catch (error) {
+        next(error)
+    }
+})
+
+// 発行したトークンはこのレスポンスでしか返さない
+router.post('/tokens', apiOperation({
+    operationId: 'createToken', method: 'post', path: '/users/tokens', tag: 'token',
+    summary: 'API トークンの発行 (トークンはこのレスポンスでだけ返す)',
+    body: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+            name: { type: 'string', minLength: 1, maxLength: 64 },
+            scopes: {
+                anyOf: [
+                    { type: 'array', minItems: 1, items: { type: 'string', enum: TOKEN_SCOPES } },
+                    { type: 'string', description: 'スペース・カンマ区切り' }
+                ]
+            },
+            expires_in_days: { type: 'integer', minimum: 1, maximum: 365, description: '省略時は無期限' }
+        }
+    }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        // 入力の形式は apiOperation でチェック済み
+        const { token, record } = await createApiToken({
+            userId: req.user.id,
+            name: req.body.name.trim(),
+            scopes: parseScopes(req.body.scopes),
+            expiresInDays: req.body.expires_in_days || null
+        })
+
+        return res.status(200).json({
+            id: record.id,
+            name: record.name,
+            scopes: record.scopes.split(' '),
+            expires_at: record.expiresAt,
+            token: token
+        })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
+        console.error(error)
+        return res.status(500).json({ message: "サーバーエラーが発生しました" })
+    }
+})
+
+router.delete('/tokens/:id', apiOperation({
+    operationId: 'revokeToken', method: 'delete', path: '/users/tokens/{id}', tag: 'token',
+    summary: 'API トークンの無効化',
+    params: { id: UUID }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        await revokeApiToken(req.user.id, req.params.id)
+        return res.status(200).json({ message: 'トークンを無効にしました' })
+
+    } catch (error: any) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message })
+        }
         console.error(error)
         return res.status(500).json({ message: "サーバーエラーが発生しました" })
     }
 })
 
 
+// ==========================================
+// ログイン中の端末 (GET/DELETE /users/sessions, DELETE /users/sessions/:id)
+// ==========================================
+// トークンでは操作できない (セッションでログインしている場合だけ)
+router.get('/sessions', apiOperation({
+    operationId: 'listSessions', method: 'get', path: '/users/sessions', tag: 'user',
+    summary: 'ログイン中の端末 (セッション) の一覧'
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        res.format({
+            html: () => res.redirect('/users/login'),
+            json: () => res.status(401).json({ message: '未ログイン' })
+        })
+        return
+    }
+
+    try {
+        const sessions = await listSessions(req.user.id, req.sessionID, req.user.epoch ?? 0)
+        res.format({
+            html: () => {
+                res.render('users/sessions', {
+                    title: 'ログイン中の端末',
+                    sessions: sessions
+                })
+            },
+            json: () => {
+                res.json({ sessions })
+            }
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+// すべての端末からログアウト (この端末も含む)
+// 一覧に載っていない古いセッションも使えなくするため session_epoch も増やす
+router.delete('/sessions', apiOperation({
+    operationId: 'revokeAllSessions', method: 'delete', path: '/users/sessions', tag: 'user',
+    summary: 'すべての端末からログアウト'
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        const userId = req.user.id
+        const revoked = await revokeAllSessions(userId)
+        await prisma.$transaction(async (tx) => {
+            await tx.user.update({
+                where: { id: userId },
+                data: { session_epoch: { increment: 1 } }
+            })
+            await recordAudit({ actorId: userId, action: 'logout_all', entity: 'user', entityId: userId, after: { sessions: revoked } }, tx)
+        })
+
+        // このリクエストのセッションが保存し直されないように破棄する
+        req.session.destroy((err) => {
+            if (err) return next(err)
+            res.clearCookie('mb_sid')
+            res.status(200).json({ message: 'すべての端末からログアウトしました' })
+        })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
+router.delete('/sessions/:id', apiOperation({
+    operationId: 'revokeSession', method: 'delete', path: '/users/sessions/{id}', tag: 'user',
+    summary: '端末 (セッション) を指定してログアウト',
+    params: { id: { type: 'string', pattern: '^[0-9a-f]{16}$' } }
+}), async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: "ログインしてください" })
+    }
+
+    try {
+        if (!await revokeSession(req.user.id, req.params.id)) {
+            return res.status(404).json({ message: "セッションが見つかりません" })
+        }
+        await recordAudit({ actorId: req.user.id, action: 'logout_session', entity: 'user', entityId: req.user.id, after: { session: req.params.id } })
+
+        // この端末を選んだ場合は、このリクエストのセッションも破棄する
+        if (req.params.id === sessionHandle(req.sessionID)) {
+            return req.session.destroy((err) => {
+                if (err) return next(err)
+                res.clearCookie('mb_sid')
+                res.status(200).json({ message: 'ログアウトしました' })
+            })
+        }
+        return res.status(200).json({ message: 'ログアウトさせました' })
+
+    } catch (error) {
+        next(error)
+    }
+})
+
 export default router
\ No newline at end of file
@@ -1,9 +1,17 @@
 import 'express-session'
 import 'passport'
+import type {TokenScope} from './libs/token.js'
 
 declare module 'express-session' {
   interface SessionData {
     messages: string[]
+    // ログイン中の端末の情報 (sessions.ts の trackSession が付ける)
+    meta: {
+      createdAt: number
+      lastSeenAt: number
+      userAgent: string
+      ip: string
+    }
   }
 }
 
@@ -12,6 +20,13 @@ declare global {
     interface User {
       id: string
       name: string
+      // ログインした時点の user.session_epoch (セッションでログインした場合だけ付く)
+      epoch?: number
+      // API トークンで認証した場合だけ付く
+      token?: {
+        id: string
+        scopes: TokenScope[]
+      }
     }
   }
 }